@@ -4,7 +4,7 @@ import type { Components } from "react-markdown";
 import { Toaster, toast } from "react-hot-toast";
 import { useDropzone } from "react-dropzone";
 import { useEffect, useMemo, useRef, useState } from "react";
-import type { FormEvent, KeyboardEvent } from "react";
+import type { FormEvent, KeyboardEvent, UIEvent } from "react";
 
 type Resource = {
   id: string;
@@ -15,16 +15,72 @@ type Resource = {
   tags: string[];
   ageRange?: string;
   type?: string;
+  folder?: string;
   uploadedBy?: string;
   createdAt?: string;
   insight?: string;
+  ownerId?: string;
+  ownerEmail?: string;
+  teamId?: string;
   patientIds?: string[];
+  goalIds?: string[];
+  score?: number;
+  highlights?: SearchHighlight[];
+  retrieval?: RetrievalDebug;
+  passage?: Passage;
+};
+
+type Passage = { text: string; page?: number; chunkIndex: number; score?: number };
+
+type RetrievalContribution = { rank: number; score: number; contribution: number };
+
+type RetrievalDebug = {
+  score: number;
+  vector?: RetrievalContribution;
+  lexical?: RetrievalContribution;
+  patientBoost?: number;
+};
+
+type SearchHighlight = {
+  field: "title" | "description" | "tags" | "text";
+  snippet: string;
+  terms: string[];
+};
+
+type SearchFilters = {
+  type: string;
+  ageRange: string;
+  tags: string;
+  patientId: string;
+};
+
+type Citation = {
+  index: number;
+  resourceId?: string;
+  title: string;
+  start: number;
+  end: number;
+  valid: boolean;
+  issue?: "unknown-resource" | "title-mismatch";
 };
 
 type Message = {
   role: "user" | "assistant";
   content: string;
   resources?: Resource[];
+  citations?: Citation[];
+  streaming?: boolean;
+  stopped?: boolean;
+};
+
+type StreamEvent = { event: string; data: string };
+
+type ConversationSummary = {
+  id: string;
+  title: string;
+  patientId?: string;
+  updatedAt: string;
+  messageCount?: number;
 };
 
 type ChatPayloadMessage = {
@@ -49,14 +105,153 @@ type Folder = {
   isLocked?: boolean;
 };
 
+type LibrarySort = "created" | "title" | "type" | "recent";
+
+type FolderCounts = {
+  total: number;
+  unsorted: number;
+  folders: Record<string, number>;
+};
+
+type UserRole = "admin" | "clinician" | "assistant" | "read-only";
+
+// Mirrors the server's permissions; the server enforces them, the UI only hides what a role cannot do
+type Permission =
+  | "resources:write"
+  | "patients:write"
+  | "patients:delete"
+  | "patients:notes"
+  | "teams:manage"
+  | "chat"
+  | "admin";
+
+type UserProfile = { name?: string; email?: string; role?: UserRole; permissions: Permission[] };
+
+// This month's AI token use; budget is null when unlimited
+type AiUsage = {
+  month: string;
+  totalTokens: number;
+  budget: number | null;
+  remaining: number | null;
+  lexicalOnly: boolean;
+};
+
+type TeamMember = { username: string; role: "owner" | "member"; addedAt: string };
+
+type Team = {
+  id: string;
+  name: string;
+  members: TeamMember[];
+};
+
+type CommunicationModality = "verbal" | "aac" | "sign" | "mixed";
+
+type CaseloadStatus = "active" | "discharged";
+
 type Patient = {
   id: string;
   name: string;
   notes?: string;
+  dateOfBirth?: string;
+  age?: number;
+  diagnoses?: string[];
+  targetSounds?: string[];
+  communicationModality?: CommunicationModality;
+  status?: CaseloadStatus;
+  // The server could not decrypt the name or notes (their key was removed)
+  unreadable?: boolean;
+};
+
+// Form state for the patient detail view; list fields are edited as comma-separated text
+type PatientDraft = {
+  name: string;
+  notes: string;
+  dateOfBirth: string;
+  diagnoses: string;
+  targetSounds: string;
+  communicationModality: CommunicationModality | "";
+  status: CaseloadStatus;
+};
+
+type GoalDomain =
+  | "articulation"
+  | "phonology"
+  | "language"
+  | "fluency"
+  | "voice"
+  | "pragmatics"
+  | "aac"
+  | "literacy"
+  | "feeding"
+  | "other";
+
+type GoalStatus = "active" | "met" | "on-hold" | "discontinued";
+
+type Goal = {
+  id: string;
+  patientId: string;
+  domain: GoalDomain;
+  target: string;
+  criterion: string;
+  status: GoalStatus;
+  startDate: string;
+  reviewDate?: string;
+};
+
+type GoalDraft = {
+  domain: GoalDomain;
+  target: string;
+  criterion: string;
+  startDate: string;
+  reviewDate: string;
+};
+
+type TrialCounts = { correct: number; incorrect: number; prompted: number };
+
+type PlanStep = { text: string; minutes?: number; resourceId?: string; goalId?: string };
+
+type SessionPlan = {
+  warmUp: PlanStep[];
+  targets: PlanStep[];
+  activities: PlanStep[];
+  homePractice: PlanStep[];
+};
+
+// A generated plan with the resources it was drafted from, so steps can show resource titles
+type PlanDraft = { plan: SessionPlan; resources: Resource[]; droppedReferences: number; durationMinutes: number };
+
+type TherapySession = {
+  id: string;
+  patientId: string;
+  date: string;
+  durationMinutes?: number;
+  notes?: string;
+  resources: { id: string; title: string }[];
+  trials: (TrialCounts & { goalId: string })[];
+  plan?: SessionPlan;
+  createdAt: string;
+};
+
+type GoalProgressPoint = TrialCounts & { sessionId: string; date: string; total: number; accuracy: number };
+
+type GoalProgress = { goalId: string; points: GoalProgressPoint[]; totals: TrialCounts & { accuracy: number } };
+
+// Form state for logging a session; trials are keyed by goal id
+type SessionDraft = {
+  date: string;
+  durationMinutes: string;
+  notes: string;
+  resourceIds: string[];
+  trials: Record<string, TrialCounts>;
 };
 
 const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:5000";
-const AUTH_STORAGE_KEY = "speech-basic-auth";
+// Holds an expiring session token from /api/auth/login, never the password. It lives in sessionStorage, so it is gone
+// when the browser closes and is not shared with other tabs.
+const AUTH_STORAGE_KEY = "speech-session-token";
+// Basic credentials kept by earlier versions, removed on load
+const LEGACY_AUTH_STORAGE_KEY = "speech-basic-auth";
+const MIN_PASSWORD_LENGTH = 8;
 
 
 const initialAssistant: Message = {
@@ -65,11 +260,239 @@ const initialAssistant: Message = {
     " I can search the resource library, find relevant resources, and help you upload new materials. What do you need today?",
 };
 
+const MODALITY_OPTIONS: { value: CommunicationModality; label: string }[] = [
+  { value: "verbal", label: "Verbal" },
+  { value: "aac", label: "AAC" },
+  { value: "sign", label: "Sign" },
+  { value: "mixed", label: "Mixed" },
+];
+
+const toPatientDraft = (patient: Patient): PatientDraft => ({
+  name: patient.name,
+  notes: patient.notes || "",
+  dateOfBirth: patient.dateOfBirth || "",
+  diagnoses: (patient.diagnoses || []).join(", "),
+  targetSounds: (patient.targetSounds || []).join(", "),
+  communicationModality: patient.communicationModality || "",
+  status: patient.status || "active",
+});
+
+const GOAL_DOMAIN_OPTIONS: { value: GoalDomain; label: string }[] = [
+  { value: "articulation", label: "Articulation" },
+  { value: "phonology", label: "Phonology" },
+  { value: "language", label: "Language" },
+  { value: "fluency", label: "Fluency" },
+  { value: "voice", label: "Voice" },
+  { value: "pragmatics", label: "Pragmatics" },
+  { value: "aac", label: "AAC" },
+  { value: "literacy", label: "Literacy" },
+  { value: "feeding", label: "Feeding" },
+  { value: "other", label: "Other" },
+];
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  clinician: "Clinician",
+  assistant: "Assistant",
+  "read-only": "Read-only",
+};
+
+const GOAL_STATUS_OPTIONS: { value: GoalStatus; label: string }[] = [
+  { value: "active", label: "Active" },
+  { value: "met", label: "Met" },
+  { value: "on-hold", label: "On hold" },
+  { value: "discontinued", label: "Discontinued" },
+];
+
+const EMPTY_GOAL_DRAFT: GoalDraft = { domain: "articulation", target: "", criterion: "", startDate: "", reviewDate: "" };
+
+const goalLabel = (goal: Goal) =>
+  `${GOAL_DOMAIN_OPTIONS.find((option) => option.value === goal.domain)?.label || "Goal"}: ${goal.target}`;
+
+const emptySessionDraft = (): SessionDraft => ({
+  date: new Date().toISOString().slice(0, 10),
+  durationMinutes: "",
+  notes: "",
+  resourceIds: [],
+  trials: {},
+});
+
+const TRIAL_FIELDS: { key: keyof TrialCounts; label: string }[] = [
+  { key: "correct", label: "Correct" },
+  { key: "incorrect", label: "Incorrect" },
+  { key: "prompted", label: "Prompted" },
+];
+
+const PLAN_SECTIONS: { key: keyof SessionPlan; label: string }[] = [
+  { key: "warmUp", label: "Warm-up" },
+  { key: "targets", label: "Targets" },
+  { key: "activities", label: "Activities" },
+  { key: "homePractice", label: "Home practice" },
+];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 110;
+const CHART_PADDING = 16;
+
+// Accuracy per session as a line over 0-100%, one point per session in date order.
+const renderProgressChart = (points: GoalProgressPoint[]) => {
+  if (points.length === 0) {
+    return <p className="text-xs text-slate-500">No trials logged for this goal yet.</p>;
+  }
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const coords = points.map((point, idx) => ({
+    point,
+    x: CHART_PADDING + (points.length === 1 ? plotWidth / 2 : (plotWidth * idx) / (points.length - 1)),
+    y: CHART_PADDING + plotHeight * (1 - point.accuracy),
+  }));
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="h-28 w-full"
+      role="img"
+      aria-label={`Accuracy across ${points.length} sessions`}
+    >
+      {[0, 0.5, 1].map((level) => {
+        const y = CHART_PADDING + plotHeight * (1 - level);
+        return (
+          <g key={level}>
+            <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y} y2={y} className="stroke-slate-200" />
+            <text x={0} y={y + 3} className="fill-slate-400 text-[8px]">
+              {formatPercent(level)}
+            </text>
+          </g>
+        );
+      })}
+      <polyline
+        points={coords.map(({ x, y }) => `${x},${y}`).join(" ")}
+        fill="none"
+        className="stroke-accent"
+        strokeWidth={2}
+      />
+      {coords.map(({ point, x, y }) => (
+        <circle key={point.sessionId} cx={x} cy={y} r={3} className="fill-accent">
+          <title>
+            {`${point.date}: ${formatPercent(point.accuracy)} (${point.correct}/${point.total} correct, ${point.prompted} prompted)`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const LIBRARY_PAGE_SIZE = 30;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const EMPTY_SEARCH_FILTERS: SearchFilters = { type: "", ageRange: "", tags: "", patientId: "" };
+
+const HIGHLIGHT_LABELS: Record<SearchHighlight["field"], string> = {
+  title: "Title",
+  description: "Description",
+  tags: "Tags",
+  text: "In file",
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const describeRetrieval = (retrieval?: RetrievalDebug) => {
+  if (!retrieval) return "Relevance score";
+  const parts = (["vector", "lexical"] as const)
+    .filter((name) => retrieval[name])
+    .map((name) => `${name} #${retrieval[name]?.rank} (+${retrieval[name]?.contribution.toFixed(4)})`);
+  if (retrieval.patientBoost) parts.push(`linked to patient (+${retrieval.patientBoost.toFixed(4)})`);
+  return parts.length > 0 ? `Fused from ${parts.join(", ")}` : "Relevance score";
+};
+
+const renderHighlight = (snippet: string, terms: string[]) => {
+  if (terms.length === 0) return snippet;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  return snippet.split(pattern).map((part, i) =>
+    i % 2 === 1 ? (
+      <mark key={i} className="rounded bg-accentSoft px-0.5 text-ink">
+        {part}
+      </mark>
+    ) : (
+      part
+    ),
+  );
+};
+
+const LIBRARY_SORT_OPTIONS: { value: LibrarySort; label: string }[] = [
+  { value: "created", label: "Newest" },
+  { value: "title", label: "Title A-Z" },
+  { value: "type", label: "Type" },
+  { value: "recent", label: "Recently used" },
+];
+
+// Splits buffered Server-Sent Events text into complete events plus the unfinished remainder.
+const parseSseBuffer = (buffer: string): { events: StreamEvent[]; rest: string } => {
+  const blocks = buffer.split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events = blocks
+    .filter((block) => block.trim())
+    .map((block) => {
+      let event = "message";
+      const data: string[] = [];
+      block.split("\n").forEach((line) => {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      });
+      return { event, data: data.join("\n") };
+    });
+  return { events, rest };
+};
+
+const PASSAGE_PREVIEW_CHARS = 240;
+
+// Best-matching passage for the current question or search, with its page number when the source is a PDF.
+const renderPassage = (passage?: Passage) => {
+  if (!passage) return null;
+  const text = passage.text.replace(/\s+/g, " ").trim();
+  return (
+    <p className="mt-1 border-l-2 border-accent/40 pl-2 text-xs italic text-slate-600">
+      {passage.page && <span className="not-italic font-semibold text-slate-700">p. {passage.page} · </span>}
+      {text.length > PASSAGE_PREVIEW_CHARS ? `${text.slice(0, PASSAGE_PREVIEW_CHARS).trimEnd()}…` : text}
+    </p>
+  );
+};
+
+const CITATION_HREF_PREFIX = "#cite-";
+
+// Swaps each cited span in a reply for a markdown link the citation chip renderer picks up by its href.
+const linkCitations = (content: string, citations?: Citation[]) => {
+  if (!citations?.length) return content;
+  let linked = content;
+  citations
+    .map((citation, idx) => ({ citation, idx }))
+    .sort((a, b) => b.citation.start - a.citation.start)
+    .forEach(({ citation, idx }) => {
+      if (citation.start < 0 || citation.end > linked.length) return;
+      const label = citation.title.replace(/[[\]\\]/g, "");
+      linked = `${linked.slice(0, citation.start)}[${label}](${CITATION_HREF_PREFIX}${idx})${linked.slice(citation.end)}`;
+    });
+  return linked;
+};
+
+const CITATION_ISSUES: Record<NonNullable<Citation["issue"]>, string> = {
+  "unknown-resource": "Not one of the resources found for this question",
+  "title-mismatch": "This title does not match any resource found for this question",
+};
+
 const BASE_FOLDERS: Folder[] = [
   { id: "all", name: "All resources", isLocked: true },
   { id: "unsorted", name: "Unsorted", isLocked: true },
 ];
 
+// Folders used to live in browser storage; these keys are only read once to import them to the server.
 const FOLDER_STORAGE_KEY = "speech-path-library-folders";
 const FOLDER_MAP_STORAGE_KEY = "speech-path-library-folder-map";
 
@@ -85,6 +508,11 @@ const markdownComponents: Components = {
 
 function App() {
   const [messages, setMessages] = useState<Message[]>([initialAssistant]);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [editingConversationId, setEditingConversationId] = useState<string | null>(null);
+  // Patient the current chat is about; sent with each message so replies use their notes and linked resources
+  const [chatPatientId, setChatPatientId] = useState<string | null>(null);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [library, setLibrary] = useState<Resource[]>([]);
@@ -95,6 +523,7 @@ function App() {
   const [fileStatus, setFileStatus] = useState<string | null>(null);
   const [editResourceId, setEditResourceId] = useState<string | null>(null);
   const chatEndRef = useRef<HTMLDivElement | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
 
   const [quickPrompts, setQuickPrompts] = useState<string[]>([
     "Need articulation drill cards for /s/ at phrase level",
@@ -106,9 +535,31 @@ function App() {
   const [patients, setPatients] = useState<Patient[]>([]);
   const [newPatient, setNewPatient] = useState<{ name: string; notes: string }>({ name: "", notes: "" });
   const [showPatientModal, setShowPatientModal] = useState(false);
+  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [patientDraft, setPatientDraft] = useState<PatientDraft | null>(null);
+  const [patientResources, setPatientResources] = useState<Resource[]>([]);
+  const [savingPatient, setSavingPatient] = useState(false);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [goalDraft, setGoalDraft] = useState<GoalDraft>(EMPTY_GOAL_DRAFT);
+  const [savingGoal, setSavingGoal] = useState(false);
+  const [patientSessions, setPatientSessions] = useState<TherapySession[]>([]);
+  const [goalProgress, setGoalProgress] = useState<GoalProgress[]>([]);
+  const [sessionDraft, setSessionDraft] = useState<SessionDraft>(emptySessionDraft);
+  const [savingSession, setSavingSession] = useState(false);
+  const [planDraft, setPlanDraft] = useState<PlanDraft | null>(null);
+  const [planFocus, setPlanFocus] = useState("");
+  const [planning, setPlanning] = useState(false);
   const [authToken, setAuthToken] = useState<string | null>(null);
-  const [userProfile, setUserProfile] = useState<{ name?: string; email?: string } | null>(null);
+  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loginForm, setLoginForm] = useState({ username: "", password: "" });
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [aiUsage, setAiUsage] = useState<AiUsage | null>(null);
+  const [showTeamModal, setShowTeamModal] = useState(false);
+  const [newTeamName, setNewTeamName] = useState("");
+  const [memberDrafts, setMemberDrafts] = useState<Record<string, string>>({});
+  const [passwordForm, setPasswordForm] = useState<{ current: string; next: string; confirm: string } | null>(null);
+  const [changingPassword, setChangingPassword] = useState(false);
 
   const initialUploadForm: UploadFormState = {
     title: "",
@@ -125,36 +576,23 @@ function App() {
   const hasFile = !!uploadForm.fileId;
   const hasLink = !!uploadForm.url?.trim() && !hasFile;
 
-  const [folders, setFolders] = useState<Folder[]>(() => {
-    if (typeof window === "undefined") return BASE_FOLDERS;
-    const stored = window.localStorage.getItem(FOLDER_STORAGE_KEY);
-    if (!stored) return BASE_FOLDERS;
-    try {
-      const parsed = JSON.parse(stored) as Folder[];
-      const custom = parsed.filter((f) => !BASE_FOLDERS.some((b) => b.id === f.id));
-      return [...BASE_FOLDERS, ...custom];
-    } catch {
-      return BASE_FOLDERS;
-    }
-  });
-
-  const [resourceFolderMap, setResourceFolderMap] = useState<Record<string, string | undefined>>(() => {
-    if (typeof window === "undefined") return {};
-    const stored = window.localStorage.getItem(FOLDER_MAP_STORAGE_KEY);
-    if (!stored) return {};
-    try {
-      return JSON.parse(stored) as Record<string, string | undefined>;
-    } catch {
-      return {};
-    }
-  });
+  const [folders, setFolders] = useState<Folder[]>(BASE_FOLDERS);
 
   const [selectedFolderId, setSelectedFolderId] = useState<string>("all");
+  const [librarySort, setLibrarySort] = useState<LibrarySort>("created");
+  const [libraryCursor, setLibraryCursor] = useState<string | null>(null);
+  const [libraryLoading, setLibraryLoading] = useState(false);
+  const [folderCounts, setFolderCounts] = useState<FolderCounts>({ total: 0, unsorted: 0, folders: {} });
+  const libraryRequestId = useRef(0);
   const [draggingResourceId, setDraggingResourceId] = useState<string | null>(null);
   const [newFolderName, setNewFolderName] = useState("");
   const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
   const [showMoreDetails, setShowMoreDetails] = useState(false);
   const [libraryFilter, setLibraryFilter] = useState("");
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [searchResults, setSearchResults] = useState<Resource[] | null>(null);
+  const [searchLoading, setSearchLoading] = useState(false);
+  const searchRequestId = useRef(0);
   const [returnToLibraryAfterEdit, setReturnToLibraryAfterEdit] = useState(false);
   const titleInputRef = useRef<HTMLInputElement | null>(null);
   const deleteTimers = useRef<Record<string, number | undefined>>({});
@@ -171,6 +609,11 @@ function App() {
     );
   };
 
+  const syncResourceInSearch = (updated: Resource) => {
+    if (!updated.id) return;
+    setSearchResults((prev) => (prev ? prev.map((r) => (r.id === updated.id ? { ...r, ...updated } : r)) : prev));
+  };
+
   const syncResourceDeleteInChat = (id: string) => {
     setMessages((prev) =>
       prev.map((msg) =>
@@ -190,25 +633,153 @@ function App() {
     }
   };
 
+  // Loads one page of the library for the current folder and sort; a null cursor starts over.
+  const loadLibraryPage = async (cursor: string | null) => {
+    if (!authToken) return;
+    const requestId = ++libraryRequestId.current;
+    const params = new URLSearchParams({ limit: String(LIBRARY_PAGE_SIZE), sort: librarySort });
+    if (selectedFolderId !== "all") params.set("folder", selectedFolderId);
+    if (cursor) params.set("cursor", cursor);
+
+    setLibraryLoading(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/resources?${params.toString()}`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      if (res.status === 401) {
+        handleAuthError();
+        return;
+      }
+      const data = await res.json();
+      if (requestId !== libraryRequestId.current) return;
+      const page = (data.data || []) as Resource[];
+      setLibrary((prev) => {
+        if (!cursor) return page;
+        const seen = new Set(prev.map((r) => r.id));
+        return [...prev, ...page.filter((r) => !seen.has(r.id))];
+      });
+      setLibraryCursor(data.nextCursor || null);
+    } catch (err) {
+      console.error("Failed to load resources", err);
+    } finally {
+      if (requestId === libraryRequestId.current) setLibraryLoading(false);
+    }
+  };
+
+  const refreshFolderCounts = async () => {
+    if (!authToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/resources/counts`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      if (data.data) setFolderCounts(data.data as FolderCounts);
+    } catch (err) {
+      console.error("Failed to load resource counts", err);
+    }
+  };
+
+  const refreshUsage = async () => {
+    if (!authToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/usage`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      if (data.data) setAiUsage(data.data as AiUsage);
+    } catch (err) {
+      console.error("Failed to load AI usage", err);
+    }
+  };
+
+  useEffect(() => {
+    if (authToken) {
+      refreshUsage();
+    }
+  }, [authToken]);
+
+  const handleLibraryScroll = (e: UIEvent<HTMLElement>) => {
+    const el = e.currentTarget;
+    if (libraryLoading || !libraryCursor || searchResults) return;
+    if (el.scrollHeight - el.scrollTop - el.clientHeight < 200) {
+      loadLibraryPage(libraryCursor);
+    }
+  };
+
+  useEffect(() => {
+    if (authToken) {
+      loadLibraryPage(null);
+    }
+  }, [authToken, librarySort, selectedFolderId]);
+
+  useEffect(() => {
+    if (authToken) {
+      refreshFolderCounts();
+    }
+  }, [authToken]);
+
   useEffect(() => {
-    const fetchResources = async () => {
+    // Pushes folders left over in browser storage to the server, then clears them locally.
+    const importLocalFolders = async () => {
+      if (typeof window === "undefined") return;
+      const storedFolders = window.localStorage.getItem(FOLDER_STORAGE_KEY);
+      const storedMap = window.localStorage.getItem(FOLDER_MAP_STORAGE_KEY);
+      if (!storedFolders && !storedMap) return;
+
+      let localFolders: Folder[] = [];
+      let localMap: Record<string, string | undefined> = {};
+      try {
+        localFolders = storedFolders ? (JSON.parse(storedFolders) as Folder[]) : [];
+        localMap = storedMap ? (JSON.parse(storedMap) as Record<string, string | undefined>) : {};
+      } catch {
+        localFolders = [];
+        localMap = {};
+      }
+
+      const custom = localFolders.filter((f) => !BASE_FOLDERS.some((b) => b.id === f.id));
+      if (custom.length > 0) {
+        const res = await fetch(`${API_BASE}/api/folders/import`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+          body: JSON.stringify({ folders: custom, assignments: localMap }),
+        });
+        if (!res.ok) {
+          throw new Error("Folder import failed");
+        }
+        const data = await res.json();
+        const moved = (data.assignments || {}) as Record<string, string>;
+        setLibrary((prev) => prev.map((r) => (moved[r.id] ? { ...r, folder: moved[r.id] } : r)));
+        refreshFolderCounts();
+        pushNotice(`Imported ${custom.length} folder${custom.length === 1 ? "" : "s"} from this browser`, "info");
+      }
+      window.localStorage.removeItem(FOLDER_STORAGE_KEY);
+      window.localStorage.removeItem(FOLDER_MAP_STORAGE_KEY);
+    };
+
+    const fetchFolders = async () => {
       try {
-        const res = await fetch(`${API_BASE}/api/resources`, {
-          headers: authToken ? { Authorization: `Basic ${authToken}` } : {},
+        await importLocalFolders();
+      } catch (err) {
+        console.error("Failed to import local folders", err);
+      }
+      try {
+        const res = await fetch(`${API_BASE}/api/folders`, {
+          headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
         });
         if (res.status === 401) {
           handleAuthError();
           return;
         }
         const data = await res.json();
-        setLibrary(data.data || []);
+        setFolders([...BASE_FOLDERS, ...((data.data || []) as Folder[])]);
       } catch (err) {
-        console.error("Failed to load resources", err);
+        console.error("Failed to load folders", err);
       }
     };
-
     if (authToken) {
-      fetchResources();
+      fetchFolders();
     }
   }, [authToken]);
 
@@ -216,7 +787,7 @@ function App() {
     const fetchPatients = async () => {
       try {
         const res = await fetch(`${API_BASE}/api/patients`, {
-          headers: authToken ? { Authorization: `Basic ${authToken}` } : {},
+          headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
         });
         if (res.status === 401) {
           handleAuthError();
@@ -233,6 +804,69 @@ function App() {
     }
   }, [authToken]);
 
+  useEffect(() => {
+    const fetchTeams = async () => {
+      try {
+        const res = await fetch(`${API_BASE}/api/teams`, {
+          headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+        });
+        if (res.status === 401) {
+          handleAuthError();
+          return;
+        }
+        const data = await res.json();
+        setTeams(data.data || []);
+      } catch (err) {
+        console.error("Failed to load teams", err);
+      }
+    };
+    if (authToken) {
+      fetchTeams();
+    }
+  }, [authToken]);
+
+  useEffect(() => {
+    const fetchGoals = async () => {
+      try {
+        const res = await fetch(`${API_BASE}/api/goals`, {
+          headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+        });
+        if (res.status === 401) {
+          handleAuthError();
+          return;
+        }
+        const data = await res.json();
+        setGoals(data.data || []);
+      } catch (err) {
+        console.error("Failed to load goals", err);
+      }
+    };
+    if (authToken) {
+      fetchGoals();
+    }
+  }, [authToken]);
+
+  useEffect(() => {
+    const fetchConversations = async () => {
+      try {
+        const res = await fetch(`${API_BASE}/api/conversations`, {
+          headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+        });
+        if (res.status === 401) {
+          handleAuthError();
+          return;
+        }
+        const data = await res.json();
+        setConversations(data.data || []);
+      } catch (err) {
+        console.error("Failed to load conversations", err);
+      }
+    };
+    if (authToken) {
+      fetchConversations();
+    }
+  }, [authToken]);
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
@@ -245,16 +879,25 @@ function App() {
 
   useEffect(() => {
     if (typeof window === "undefined") return;
-    const stored = window.localStorage.getItem(AUTH_STORAGE_KEY);
-    if (stored) {
-      setAuthToken(stored);
-      try {
-        const decoded = atob(stored).split(":");
-        setUserProfile({ name: decoded[0], email: "" });
-      } catch {
-        setUserProfile(null);
-      }
-    }
+    window.localStorage.removeItem(LEGACY_AUTH_STORAGE_KEY);
+    const stored = window.sessionStorage.getItem(AUTH_STORAGE_KEY);
+    if (!stored) return;
+    setAuthToken(stored);
+    fetch(`${API_BASE}/api/auth-check`, { headers: { Authorization: `Bearer ${stored}` } })
+      .then(async (res) => {
+        if (res.status === 401) {
+          handleAuthError();
+          return;
+        }
+        const data = await res.json();
+        setUserProfile({
+          name: data.user,
+          email: data.email || "",
+          role: data.role,
+          permissions: data.permissions || [],
+        });
+      })
+      .catch((err) => console.error("Failed to restore session", err));
   }, []);
 
   const historyForApi = useMemo<ChatPayloadMessage[]>(
@@ -285,6 +928,29 @@ function App() {
     return map;
   }, [patients]);
 
+  const goalMap = useMemo(() => {
+    const map: Record<string, Goal> = {};
+    goals.forEach((g) => {
+      map[g.id] = g;
+    });
+    return map;
+  }, [goals]);
+
+  const teamMap = useMemo(() => {
+    const map: Record<string, Team> = {};
+    teams.forEach((t) => {
+      map[t.id] = t;
+    });
+    return map;
+  }, [teams]);
+
+  const can = (permission: Permission) => !!userProfile?.permissions.includes(permission);
+
+  // Resources shared by teammates are read-only here; patient and goal links stay with their owner
+  const isOwnResource = (res: Resource) => !res.ownerId || res.ownerId === userProfile?.name;
+  const canEditResource = (res: Resource) => isOwnResource(res) && can("resources:write");
+  const canLinkPatients = (res: Resource) => isOwnResource(res) && can("patients:write");
+
   const formatType = (t?: string) => {
     if (!t) return undefined;
     const lower = t.toLowerCase();
@@ -314,7 +980,7 @@ function App() {
     const normalized = normalizeUrl(resource.url);
     if (!normalized) return;
     try {
-      const res = await fetch(normalized, { headers: { Authorization: `Basic ${authToken}` } });
+      const res = await fetch(normalized, { headers: { Authorization: `Bearer ${authToken}` } });
       if (!res.ok) throw new Error("View failed");
       const blob = await res.blob();
       const href = URL.createObjectURL(blob);
@@ -325,50 +991,172 @@ function App() {
     }
   };
 
+  const openCitedResource = (resource: Resource) => {
+    if (resource.url && resource.url.startsWith("http") && !resource.fileId) {
+      window.open(resource.url, "_blank", "noopener,noreferrer");
+      markResourceUsed(resource.id);
+      return;
+    }
+    if (resource.url) handleView(resource);
+  };
+
+  // Markdown components for one reply: citation links become chips that open the cited resource.
+  const replyComponents = (msg: Message): Components => ({
+    ...markdownComponents,
+    a: ({ href, title, children }) => {
+      if (!href?.startsWith(CITATION_HREF_PREFIX)) {
+        return (
+          <a href={href} title={title} target="_blank" rel="noreferrer">
+            {children}
+          </a>
+        );
+      }
+      const citation = msg.citations?.[Number(href.slice(CITATION_HREF_PREFIX.length))];
+      const resource = citation?.resourceId ? msg.resources?.find((r) => r.id === citation.resourceId) : undefined;
+      if (!citation || !citation.valid || !resource) {
+        return (
+          <span
+            title={citation?.issue ? CITATION_ISSUES[citation.issue] : "Resource not available"}
+            className="mx-0.5 inline-flex items-center gap-1 rounded-full border border-amber-300 bg-amber-50 px-2 py-0.5 text-[11px] font-semibold text-amber-700 no-underline"
+          >
+            {children}
+            <span aria-hidden>?</span>
+          </span>
+        );
+      }
+      return (
+        <button
+          type="button"
+          onClick={() => openCitedResource(resource)}
+          title={`Open ${resource.title}`}
+          className="mx-0.5 inline-flex items-center gap-1 rounded-full border border-accent/30 bg-accentSoft px-2 py-0.5 text-[11px] font-semibold text-accent transition hover:border-accent"
+        >
+          {children}
+          <span className="text-[10px] text-accent/70">[{citation.index}]</span>
+        </button>
+      );
+    },
+  });
+
+  // Files are marked used by the download route; external links need an explicit ping.
+  const markResourceUsed = (id?: string) => {
+    if (!authToken || !id) return;
+    fetch(`${API_BASE}/api/resources/${id}/used`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${authToken}` },
+    }).catch((err) => console.error("Failed to mark resource used", err));
+  };
+
   const clearAuth = () => {
     setAuthToken(null);
     setUserProfile(null);
     if (typeof window !== "undefined") {
-      window.localStorage.removeItem(AUTH_STORAGE_KEY);
+      window.sessionStorage.removeItem(AUTH_STORAGE_KEY);
     }
   };
 
   const handleLogin = async () => {
     const user = loginForm.username.trim();
-    const pass = loginForm.password.trim();
+    const pass = loginForm.password;
     if (!user || !pass) {
       pushNotice("Enter username and password", "error");
       return;
     }
-    const token = btoa(`${user}:${pass}`);
     try {
-      const res = await fetch(`${API_BASE}/api/auth-check`, {
-        headers: { Authorization: `Basic ${token}` },
-        method: "GET",
+      const res = await fetch(`${API_BASE}/api/auth/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: user, password: pass }),
       });
+      if (res.status === 429) {
+        const data = await res.json().catch(() => ({}));
+        const seconds = Number(res.headers.get("Retry-After")) || data.retryAfterSeconds || 60;
+        const wait = seconds < 60 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+        setLoginError(`Too many failed sign-in attempts. Try again in ${wait}.`);
+        return;
+      }
       if (!res.ok) {
         throw new Error("Invalid credentials");
       }
+      setLoginError(null);
+      const data = await res.json();
+      const token = data.data.token as string;
       setAuthToken(token);
-      setUserProfile({ name: user, email: "" });
+      setUserProfile({
+        name: data.data.user.username,
+        email: data.data.user.email || "",
+        role: data.data.user.role,
+        permissions: data.data.user.permissions || [],
+      });
+      setLoginForm({ username: "", password: "" });
       if (typeof window !== "undefined") {
-        window.localStorage.setItem(AUTH_STORAGE_KEY, token);
+        window.sessionStorage.setItem(AUTH_STORAGE_KEY, token);
       }
       pushNotice("Signed in", "success");
     } catch (err) {
       console.error("Login failed", err);
       clearAuth();
+      setLoginError(null);
       pushNotice("Invalid username or password", "error");
     }
   };
 
   const handleLogout = () => {
+    if (authToken) {
+      fetch(`${API_BASE}/api/auth/logout`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${authToken}` },
+      }).catch((err) => console.error("Failed to end session", err));
+    }
+    setPasswordForm(null);
     setAuthToken(null);
     setUserProfile(null);
     setUploadForm(initialUploadForm);
     setFileStatus(null);
+    setTeams([]);
+    setAiUsage(null);
+    setShowTeamModal(false);
+    setConversations([]);
+    setActiveConversationId(null);
+    setChatPatientId(null);
+    setMessages([initialAssistant]);
     if (typeof window !== "undefined") {
-      window.localStorage.removeItem(AUTH_STORAGE_KEY);
+      window.sessionStorage.removeItem(AUTH_STORAGE_KEY);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if (!authToken || !passwordForm) return;
+    if (passwordForm.next.length < MIN_PASSWORD_LENGTH) {
+      pushNotice(`New password must be at least ${MIN_PASSWORD_LENGTH} characters.`, "error");
+      return;
+    }
+    if (passwordForm.next !== passwordForm.confirm) {
+      pushNotice("New passwords do not match.", "error");
+      return;
+    }
+    setChangingPassword(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/auth/password`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({ currentPassword: passwordForm.current, newPassword: passwordForm.next }),
+      });
+      if (res.status === 401) {
+        handleAuthError();
+        return;
+      }
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to change password");
+      }
+      setPasswordForm(null);
+      pushNotice("Password changed. Other sessions were signed out.", "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice(err instanceof Error ? err.message : "Could not change password.", "error");
+    } finally {
+      setChangingPassword(false);
     }
   };
 
@@ -389,6 +1177,13 @@ function App() {
     clearAuth();
     setLibrary([]);
     setPatients([]);
+    setGoals([]);
+    setTeams([]);
+    setAiUsage(null);
+    setConversations([]);
+    setActiveConversationId(null);
+    setChatPatientId(null);
+    setMessages([initialAssistant]);
   };
 
   const handleAddPatient = async () => {
@@ -404,7 +1199,7 @@ function App() {
     try {
       const res = await fetch(`${API_BASE}/api/patients`, {
         method: "POST",
-        headers: { "Content-Type": "application/json", Authorization: `Basic ${authToken}` },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
         body: JSON.stringify({ name, notes: newPatient.notes.trim() || undefined }),
       });
       if (!res.ok) {
@@ -421,6 +1216,315 @@ function App() {
     }
   };
 
+  const handleOpenPatient = async (patient: Patient) => {
+    setSelectedPatientId(patient.id);
+    setPatientDraft(toPatientDraft(patient));
+    setGoalDraft(EMPTY_GOAL_DRAFT);
+    setSessionDraft(emptySessionDraft());
+    setPlanDraft(null);
+    setPlanFocus("");
+    setPatientResources([]);
+    setPatientSessions([]);
+    setGoalProgress([]);
+    if (!authToken) return;
+    loadPatientSessions(patient.id);
+    try {
+      const res = await fetch(`${API_BASE}/api/search?patientId=${encodeURIComponent(patient.id)}&limit=50`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      setPatientResources(data.data || []);
+    } catch (err) {
+      console.error("Failed to load linked resources", err);
+    }
+  };
+
+  const closePatientDetail = () => {
+    setSelectedPatientId(null);
+    setPatientDraft(null);
+    setPatientResources([]);
+    setPatientSessions([]);
+    setGoalProgress([]);
+    setPlanDraft(null);
+  };
+
+  // Session history and per-goal progress are reloaded together after every change
+  const loadPatientSessions = async (patientId: string) => {
+    if (!authToken) return;
+    try {
+      const headers = { Authorization: `Bearer ${authToken}` };
+      const [sessionsRes, progressRes] = await Promise.all([
+        fetch(`${API_BASE}/api/patients/${patientId}/sessions`, { headers }),
+        fetch(`${API_BASE}/api/patients/${patientId}/progress`, { headers }),
+      ]);
+      if (sessionsRes.ok) {
+        const data = await sessionsRes.json();
+        setPatientSessions(data.data || []);
+      }
+      if (progressRes.ok) {
+        const data = await progressRes.json();
+        setGoalProgress(data.data || []);
+      }
+    } catch (err) {
+      console.error("Failed to load sessions", err);
+    }
+  };
+
+  const handleLogSession = async () => {
+    if (!authToken || !selectedPatientId) return;
+    const trials = Object.entries(sessionDraft.trials).map(([goalId, counts]) => ({ goalId, ...counts }));
+    if (!planDraft && !sessionDraft.notes.trim() && trials.every((t) => t.correct + t.incorrect + t.prompted === 0)) {
+      pushNotice("Add notes or trial counts before logging a session.", "error");
+      return;
+    }
+    setSavingSession(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/patients/${selectedPatientId}/sessions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({
+          date: sessionDraft.date || undefined,
+          durationMinutes: sessionDraft.durationMinutes ? Number(sessionDraft.durationMinutes) : undefined,
+          notes: sessionDraft.notes.trim() || undefined,
+          resourceIds: sessionDraft.resourceIds,
+          trials,
+          plan: planDraft?.plan,
+        }),
+      });
+      if (res.status === 401) {
+        handleAuthError();
+        return;
+      }
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to log session");
+      }
+      setSessionDraft(emptySessionDraft());
+      setPlanDraft(null);
+      await loadPatientSessions(selectedPatientId);
+      pushNotice("Session logged", "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice(err instanceof Error ? err.message : "Could not log session.", "error");
+    } finally {
+      setSavingSession(false);
+    }
+  };
+
+  const handlePlanSession = async () => {
+    if (!authToken || !selectedPatientId) return;
+    setPlanning(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/patients/${selectedPatientId}/session-plan`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({
+          focus: planFocus.trim() || undefined,
+          durationMinutes: sessionDraft.durationMinutes ? Number(sessionDraft.durationMinutes) : undefined,
+        }),
+      });
+      if (res.status === 401) {
+        handleAuthError();
+        return;
+      }
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to plan session");
+      }
+      const draft = data.data as PlanDraft;
+      setPlanDraft(draft);
+      // Resources the plan uses are preselected as used; the session duration follows the plan
+      const planned = PLAN_SECTIONS.flatMap(({ key }) => draft.plan[key].map((step) => step.resourceId)).filter(
+        (rid): rid is string => !!rid,
+      );
+      setSessionDraft((d) => ({
+        ...d,
+        durationMinutes: d.durationMinutes || String(draft.durationMinutes),
+        resourceIds: Array.from(new Set([...d.resourceIds, ...planned])),
+      }));
+    } catch (err) {
+      console.error(err);
+      pushNotice(err instanceof Error ? err.message : "Could not plan session.", "error");
+    } finally {
+      setPlanning(false);
+      refreshUsage();
+    }
+  };
+
+  const updatePlanStep = (section: keyof SessionPlan, index: number, text: string | null) => {
+    setPlanDraft((d) =>
+      d
+        ? {
+            ...d,
+            plan: {
+              ...d.plan,
+              [section]:
+                text === null
+                  ? d.plan[section].filter((_, idx) => idx !== index)
+                  : d.plan[section].map((step, idx) => (idx === index ? { ...step, text } : step)),
+            },
+          }
+        : d,
+    );
+  };
+
+  const handleDeleteSession = async (session: TherapySession) => {
+    if (!authToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/patients/${session.patientId}/sessions/${session.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      if (!res.ok && res.status !== 204) {
+        throw new Error("Failed to delete session");
+      }
+      await loadPatientSessions(session.patientId);
+      pushNotice("Session deleted", "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice("Could not delete session.", "error");
+    }
+  };
+
+  // Linked resources plus any the current plan suggested
+  const sessionResourceOptions = [
+    ...patientResources,
+    ...(planDraft?.resources || []).filter(
+      (r) => sessionDraft.resourceIds.includes(r.id) && !patientResources.some((linked) => linked.id === r.id),
+    ),
+  ];
+
+  const updateSessionTrial = (goalId: string, key: keyof TrialCounts, value: string) => {
+    const count = Math.max(0, Math.floor(Number(value) || 0));
+    setSessionDraft((d) => ({
+      ...d,
+      trials: {
+        ...d.trials,
+        [goalId]: { ...(d.trials[goalId] || { correct: 0, incorrect: 0, prompted: 0 }), [key]: count },
+      },
+    }));
+  };
+
+  const handleSavePatient = async () => {
+    if (!authToken || !selectedPatientId || !patientDraft) return;
+    if (!patientDraft.name.trim()) {
+      pushNotice("Patient name is required.", "error");
+      return;
+    }
+    setSavingPatient(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/patients/${selectedPatientId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({
+          name: patientDraft.name.trim(),
+          notes: patientDraft.notes.trim() || null,
+          dateOfBirth: patientDraft.dateOfBirth || null,
+          diagnoses: splitList(patientDraft.diagnoses),
+          targetSounds: splitList(patientDraft.targetSounds),
+          communicationModality: patientDraft.communicationModality || null,
+          status: patientDraft.status,
+        }),
+      });
+      if (res.status === 401) {
+        handleAuthError();
+        return;
+      }
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update patient");
+      }
+      const updated = data.data as Patient;
+      setPatients((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+      setPatientDraft(toPatientDraft(updated));
+      pushNotice("Patient updated", "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice(err instanceof Error ? err.message : "Could not update patient.", "error");
+    } finally {
+      setSavingPatient(false);
+    }
+  };
+
+  const handleAddGoal = async () => {
+    if (!authToken || !selectedPatientId) return;
+    if (!goalDraft.target.trim() || !goalDraft.criterion.trim()) {
+      pushNotice("Goal target and criterion are required.", "error");
+      return;
+    }
+    setSavingGoal(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/patients/${selectedPatientId}/goals`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({
+          domain: goalDraft.domain,
+          target: goalDraft.target.trim(),
+          criterion: goalDraft.criterion.trim(),
+          startDate: goalDraft.startDate || undefined,
+          reviewDate: goalDraft.reviewDate || undefined,
+        }),
+      });
+      if (res.status === 401) {
+        handleAuthError();
+        return;
+      }
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to add goal");
+      }
+      setGoals((prev) => [...prev, data.data as Goal]);
+      setGoalDraft(EMPTY_GOAL_DRAFT);
+      loadPatientSessions(selectedPatientId);
+      pushNotice("Goal added", "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice(err instanceof Error ? err.message : "Could not add goal.", "error");
+    } finally {
+      setSavingGoal(false);
+    }
+  };
+
+  const handleUpdateGoalStatus = async (goal: Goal, status: GoalStatus) => {
+    if (!authToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/patients/${goal.patientId}/goals/${goal.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({ status }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update goal");
+      }
+      const updated = data.data as Goal;
+      setGoals((prev) => prev.map((g) => (g.id === updated.id ? updated : g)));
+    } catch (err) {
+      console.error(err);
+      pushNotice("Could not update goal.", "error");
+    }
+  };
+
+  // Resources keep their goalIds until reloaded; chips skip goals that no longer exist.
+  const handleDeleteGoal = async (goal: Goal) => {
+    if (!authToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/patients/${goal.patientId}/goals/${goal.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      if (!res.ok && res.status !== 204) {
+        throw new Error("Failed to delete goal");
+      }
+      setGoals((prev) => prev.filter((g) => g.id !== goal.id));
+      pushNotice("Goal deleted", "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice("Could not delete goal.", "error");
+    }
+  };
+
   const handleDeletePatient = (id?: string) => {
     if (!authToken || !id) return;
     const removed = patients.find((p) => p.id === id);
@@ -480,11 +1584,15 @@ function App() {
       try {
         const res = await fetch(`${API_BASE}/api/patients/${id}`, {
           method: "DELETE",
-          headers: { Authorization: `Basic ${authToken}` },
+          headers: { Authorization: `Bearer ${authToken}` },
         });
         if (!res.ok && res.status !== 204) {
           throw new Error("Failed to delete patient");
         }
+        // The server turns the patient's conversations into general chats
+        setConversations((prev) => prev.map((c) => (c.patientId === id ? { ...c, patientId: undefined } : c)));
+        setChatPatientId((prev) => (prev === id ? null : prev));
+        setGoals((prev) => prev.filter((g) => g.patientId !== id));
       } catch (err) {
         console.error(err);
         undoDelete();
@@ -525,7 +1633,7 @@ function App() {
     try {
       const res = await fetch(`${API_BASE}/api/resources/${resourceId}/patients`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json", Authorization: `Basic ${authToken}` },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
         body: JSON.stringify({ patientIds: nextIds }),
       });
       if (!res.ok) {
@@ -536,6 +1644,7 @@ function App() {
       const updated = data.data as Resource;
       setLibrary((prev) => prev.map((item) => (item.id === resourceId ? updated : item)));
       syncResourceUpdateInChat(updated);
+      syncResourceInSearch(updated);
       pushNotice("Updated patient assignment", "success");
     } catch (err) {
       console.error(err);
@@ -543,6 +1652,33 @@ function App() {
     }
   };
 
+  // Linking to a goal also links the resource to the goal's patient
+  const updateResourceGoal = async (resourceId: string, goal: Goal, linked: boolean) => {
+    if (!authToken) {
+      pushNotice("Please sign in first.", "error");
+      return;
+    }
+    try {
+      const res = await fetch(`${API_BASE}/api/patients/${goal.patientId}/goals/${goal.id}/resources/${resourceId}`, {
+        method: linked ? "PUT" : "DELETE",
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to update goal link");
+      }
+      const data = await res.json();
+      const updated = data.data as Resource;
+      setLibrary((prev) => prev.map((item) => (item.id === resourceId ? updated : item)));
+      syncResourceUpdateInChat(updated);
+      syncResourceInSearch(updated);
+      pushNotice(linked ? "Linked to goal" : "Removed goal link", "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice("Could not update goal link.", "error");
+    }
+  };
+
   const handleAssignPatient = (resource: Resource, patientId: string) => {
     if (!patientId) return;
     const current = resource.patientIds || [];
@@ -557,192 +1693,600 @@ function App() {
     updateResourcePatients(resource.id, next);
   };
 
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    const customFolders = folders.filter((f) => !f.isLocked);
-    window.localStorage.setItem(FOLDER_STORAGE_KEY, JSON.stringify(customFolders));
-  }, [folders]);
-
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    window.localStorage.setItem(FOLDER_MAP_STORAGE_KEY, JSON.stringify(resourceFolderMap));
-  }, [resourceFolderMap]);
-
-  useEffect(() => {
-    if (library.length === 0) return;
-    setResourceFolderMap((prev) => {
-      const ids = new Set(library.map((r) => r.id));
-      const next = { ...prev };
-      let changed = false;
-      Object.keys(next).forEach((key) => {
-        if (!ids.has(key)) {
-          delete next[key];
-          changed = true;
-        }
+  const updateResourceSharing = async (resourceId: string, teamId: string | null) => {
+    if (!authToken) {
+      pushNotice("Please sign in first.", "error");
+      return;
+    }
+    try {
+      const res = await fetch(`${API_BASE}/api/resources/${resourceId}/sharing`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({ teamId }),
       });
-      return changed ? next : prev;
-    });
-  }, [library]);
-
-  const filteredLibrary = useMemo(
-    () =>
-      library.filter((item) => {
-        if (selectedFolderId !== "all") {
-          if (selectedFolderId === "unsorted") {
-            if (resourceFolderMap[item.id]) return false;
-          } else if (resourceFolderMap[item.id] !== selectedFolderId) {
-            return false;
-          }
-        }
-
-        if (!libraryFilter.trim()) return true;
-        const q = libraryFilter.toLowerCase();
-        const haystack = `${item.title} ${item.description} ${(item.tags || []).join(" ")} ${item.type ?? ""}`.toLowerCase();
-        return haystack.includes(q);
-      }),
-    [library, resourceFolderMap, selectedFolderId, libraryFilter],
-  );
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to update sharing");
+      }
+      const data = await res.json();
+      // JSON omits a cleared teamId, so set it explicitly for the merges into chat and search results
+      const updated = { ...(data.data as Resource), teamId: data.data?.teamId };
+      setLibrary((prev) => prev.map((item) => (item.id === resourceId ? updated : item)));
+      syncResourceUpdateInChat(updated);
+      syncResourceInSearch(updated);
+      pushNotice(teamId ? `Shared with ${teamMap[teamId]?.name || "team"}` : "Resource is now private", "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice("Could not update sharing.", "error");
+    }
+  };
 
-  const handleCreateFolder = () => {
-    const trimmed = newFolderName.trim();
-    if (!trimmed) return;
-    const newFolder: Folder = { id: `folder-${Date.now()}`, name: trimmed };
-    setFolders((prev) => [...prev, newFolder]);
-    setSelectedFolderId(newFolder.id);
-    setNewFolderName("");
-    pushNotice("Folder created", "success");
+  // Drops resources that stopped being visible through a team, and marks own resources private again
+  const forgetTeamResources = (teamId: string, ownerId?: string) => {
+    const unshare = (res: Resource) =>
+      res.teamId === teamId && (!ownerId || res.ownerId === ownerId) ? { ...res, teamId: undefined } : res;
+    const visible = (res: Resource) => isOwnResource(res) || !!res.teamId;
+    setLibrary((prev) => prev.map(unshare).filter(visible));
+    setSearchResults((prev) => (prev ? prev.map(unshare).filter(visible) : prev));
   };
 
-  const handleResourceDrop = (folderId: string) => {
-    if (!draggingResourceId) return;
-    if (folderId === "all") {
-      setDraggingResourceId(null);
+  const handleCreateTeam = async () => {
+    if (!authToken) {
+      pushNotice("Please sign in first.", "error");
       return;
     }
-    const currentFolder = resourceFolderMap[draggingResourceId];
-    if ((folderId === "unsorted" && !currentFolder) || currentFolder === folderId) {
-      pushNotice("Resource already there", "info");
-      setDraggingResourceId(null);
+    const name = newTeamName.trim();
+    if (!name) {
+      pushNotice("Team name is required.", "error");
       return;
     }
-    setResourceFolderMap((prev) => {
-      const next = { ...prev };
-      delete next[draggingResourceId];
-      if (folderId === "unsorted") {
-        // no folder assignment keeps it out of other folders
-      } else {
-        next[draggingResourceId] = folderId;
+    try {
+      const res = await fetch(`${API_BASE}/api/teams`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({ name }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to create team");
       }
-      return next;
-    });
-    if (folderId !== "all") {
-      setSelectedFolderId(folderId);
+      const data = await res.json();
+      setTeams((prev) => [...prev, data.data as Team].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewTeamName("");
+      pushNotice("Team created", "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice(err instanceof Error ? err.message : "Could not create team.", "error");
     }
-    setDraggingResourceId(null);
-    const folderName = folders.find((f) => f.id === folderId)?.name || "Folder";
-    pushNotice(`Moved to "${folderName}"`, "info");
   };
 
-  const handleRenameFolder = (folderId: string, name: string) => {
-    const trimmed = name.trim();
-    if (!trimmed) {
-      setEditingFolderId(null);
+  const handleAddMember = async (team: Team) => {
+    if (!authToken) {
+      pushNotice("Please sign in first.", "error");
       return;
     }
-    setFolders((prev) =>
-      prev.map((f) => (f.id === folderId ? { ...f, name: trimmed } : f)),
-    );
-    setEditingFolderId(null);
+    const username = (memberDrafts[team.id] || "").trim();
+    if (!username) {
+      pushNotice("Enter a username to add.", "error");
+      return;
+    }
+    try {
+      const res = await fetch(`${API_BASE}/api/teams/${team.id}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({ username }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to add member");
+      }
+      const data = await res.json();
+      setTeams((prev) => prev.map((t) => (t.id === team.id ? (data.data as Team) : t)));
+      setMemberDrafts((prev) => ({ ...prev, [team.id]: "" }));
+      pushNotice(`Added ${username}`, "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice(err instanceof Error ? err.message : "Could not add member.", "error");
+    }
   };
 
-  const handleDownload = async (resource: Resource) => {
+  // Removing yourself leaves the team
+  const handleRemoveMember = async (team: Team, username: string) => {
     if (!authToken) {
       pushNotice("Please sign in first.", "error");
       return;
     }
-    const normalized = normalizeUrl(resource.url);
-    if (!normalized) return;
+    const leaving = username === userProfile?.name;
     try {
-      const res = await fetch(normalized, { headers: { Authorization: `Basic ${authToken}` } });
+      const res = await fetch(`${API_BASE}/api/teams/${team.id}/members/${encodeURIComponent(username)}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
       if (!res.ok) {
-        throw new Error("Download failed");
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to remove member");
       }
-      const blob = await res.blob();
-      const href = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = href;
-      a.download = resource.title ? resource.title.replace(/\s+/g, "_") : "resource";
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      URL.revokeObjectURL(href);
-      pushNotice("Download started", "info");
+      if (leaving) {
+        setTeams((prev) => prev.filter((t) => t.id !== team.id));
+        forgetTeamResources(team.id);
+      } else {
+        setTeams((prev) =>
+          prev.map((t) => (t.id === team.id ? { ...t, members: t.members.filter((m) => m.username !== username) } : t)),
+        );
+        forgetTeamResources(team.id, username);
+      }
+      pushNotice(leaving ? `Left ${team.name}` : `Removed ${username}`, "success");
     } catch (err) {
       console.error(err);
-      setFileStatus("Could not download file. Please try again.");
-      pushNotice("Download failed", "error");
+      pushNotice(err instanceof Error ? err.message : "Could not remove member.", "error");
     }
   };
 
-  
-
-  const handleSend = async () => {
+  const handleDeleteTeam = async (team: Team) => {
     if (!authToken) {
       pushNotice("Please sign in first.", "error");
       return;
     }
-    const trimmed = input.trim();
-    if (!trimmed) return;
-
-    const historyPayload: ChatPayloadMessage[] = [
-      ...historyForApi,
-      { role: "user", content: trimmed },
-    ];
-    const nextMessages: Message[] = [...messages, { role: "user", content: trimmed }];
-    setMessages(nextMessages);
-    setInput("");
-    setIsLoading(true);
-
     try {
-      const res = await fetch(`${API_BASE}/api/chat`, {
+      const res = await fetch(`${API_BASE}/api/teams/${team.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to delete team");
+      }
+      setTeams((prev) => prev.filter((t) => t.id !== team.id));
+      forgetTeamResources(team.id);
+      pushNotice("Team deleted", "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice(err instanceof Error ? err.message : "Could not delete team.", "error");
+    }
+  };
+
+  useEffect(() => {
+    const q = libraryFilter.trim();
+    const activeFilters = Object.values(searchFilters).some((v) => v.trim());
+    if (!authToken || (!q && !activeFilters)) {
+      searchRequestId.current += 1;
+      setSearchResults(null);
+      setSearchLoading(false);
+      return;
+    }
+
+    const timer = window.setTimeout(async () => {
+      const requestId = ++searchRequestId.current;
+      const params = new URLSearchParams();
+      if (q) params.set("q", q);
+      Object.entries(searchFilters).forEach(([key, value]) => {
+        if (value.trim()) params.set(key, value.trim());
+      });
+      if (selectedFolderId !== "all") params.set("folder", selectedFolderId);
+
+      setSearchLoading(true);
+      try {
+        const res = await fetch(`${API_BASE}/api/search?${params.toString()}`, {
+          headers: { Authorization: `Bearer ${authToken}` },
+        });
+        if (res.status === 401) {
+          handleAuthError();
+          return;
+        }
+        if (!res.ok) {
+          throw new Error("Search failed");
+        }
+        const data = await res.json();
+        if (requestId === searchRequestId.current) {
+          setSearchResults((data.data || []) as Resource[]);
+        }
+      } catch (err) {
+        console.error(err);
+        pushNotice("Search failed. Please try again.", "error");
+      } finally {
+        if (requestId === searchRequestId.current) setSearchLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [authToken, libraryFilter, searchFilters, selectedFolderId]);
+
+  // Search results come back already folder-filtered, but moves made while searching must still drop out of view.
+  const filteredLibrary = useMemo(
+    () =>
+      (searchResults ?? library).filter((item) => {
+        if (selectedFolderId === "all") return true;
+        if (selectedFolderId === "unsorted") return !item.folder;
+        return item.folder === selectedFolderId;
+      }),
+    [library, searchResults, selectedFolderId],
+  );
+
+  const handleCreateFolder = async () => {
+    if (!authToken) {
+      pushNotice("Please sign in first.", "error");
+      return;
+    }
+    const trimmed = newFolderName.trim();
+    if (!trimmed) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/folders`, {
         method: "POST",
-        headers: { "Content-Type": "application/json", Authorization: `Basic ${authToken}` },
-        body: JSON.stringify({ message: trimmed, history: historyPayload }),
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({ name: trimmed }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to create folder");
+      }
+      const data = await res.json();
+      const newFolder = data.data as Folder;
+      setFolders((prev) => [...prev, newFolder]);
+      setSelectedFolderId(newFolder.id);
+      setNewFolderName("");
+      pushNotice("Folder created", "success");
+    } catch (err) {
+      console.error(err);
+      pushNotice("Could not create folder.", "error");
+    }
+  };
+
+  const handleResourceDrop = async (folderId: string) => {
+    if (!draggingResourceId || !authToken) return;
+    const resourceId = draggingResourceId;
+    setDraggingResourceId(null);
+    if (folderId === "all") return;
+    const currentFolder = (searchResults ?? library).find((r) => r.id === resourceId)?.folder;
+    if ((folderId === "unsorted" && !currentFolder) || currentFolder === folderId) {
+      pushNotice("Resource already there", "info");
+      return;
+    }
+    try {
+      const res =
+        folderId === "unsorted"
+          ? await fetch(`${API_BASE}/api/folders/${currentFolder}/resources/${resourceId}`, {
+              method: "DELETE",
+              headers: { Authorization: `Bearer ${authToken}` },
+            })
+          : await fetch(`${API_BASE}/api/folders/${folderId}/resources/${resourceId}`, {
+              method: "PUT",
+              headers: { Authorization: `Bearer ${authToken}` },
+            });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to move resource");
+      }
+      const nextFolder = folderId === "unsorted" ? undefined : folderId;
+      setLibrary((prev) => prev.map((r) => (r.id === resourceId ? { ...r, folder: nextFolder } : r)));
+      setSearchResults((prev) => (prev ? prev.map((r) => (r.id === resourceId ? { ...r, folder: nextFolder } : r)) : prev));
+      setSelectedFolderId(folderId);
+      refreshFolderCounts();
+      const folderName = folders.find((f) => f.id === folderId)?.name || "Folder";
+      pushNotice(`Moved to "${folderName}"`, "info");
+    } catch (err) {
+      console.error(err);
+      pushNotice("Could not move resource.", "error");
+    }
+  };
+
+  const handleRenameFolder = async (folderId: string, name: string) => {
+    const trimmed = name.trim();
+    setEditingFolderId(null);
+    if (!trimmed || !authToken) return;
+    const previous = folders.find((f) => f.id === folderId)?.name;
+    if (previous === trimmed) return;
+    setFolders((prev) =>
+      prev.map((f) => (f.id === folderId ? { ...f, name: trimmed } : f)),
+    );
+    try {
+      const res = await fetch(`${API_BASE}/api/folders/${folderId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({ name: trimmed }),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to rename folder");
+      }
+    } catch (err) {
+      console.error(err);
+      setFolders((prev) =>
+        prev.map((f) => (f.id === folderId && previous ? { ...f, name: previous } : f)),
+      );
+      pushNotice("Could not rename folder.", "error");
+    }
+  };
+
+  const handleDeleteFolder = async (folderId: string) => {
+    if (!authToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/folders/${folderId}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${authToken}` },
       });
+      if (!res.ok && res.status !== 204) {
+        throw new Error("Failed to delete folder");
+      }
+      setFolders((prev) => prev.filter((f) => f.id !== folderId));
+      setLibrary((prev) => prev.map((r) => (r.folder === folderId ? { ...r, folder: undefined } : r)));
+      setSearchResults((prev) => (prev ? prev.map((r) => (r.folder === folderId ? { ...r, folder: undefined } : r)) : prev));
+      if (selectedFolderId === folderId) setSelectedFolderId("all");
+      refreshFolderCounts();
+      pushNotice("Folder deleted. Its resources are now unsorted.", "info");
+    } catch (err) {
+      console.error(err);
+      pushNotice("Could not delete folder.", "error");
+    }
+  };
 
+  const handleDownload = async (resource: Resource) => {
+    if (!authToken) {
+      pushNotice("Please sign in first.", "error");
+      return;
+    }
+    const normalized = normalizeUrl(resource.url);
+    if (!normalized) return;
+    try {
+      const res = await fetch(normalized, { headers: { Authorization: `Bearer ${authToken}` } });
       if (!res.ok) {
+        throw new Error("Download failed");
+      }
+      const blob = await res.blob();
+      const href = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = href;
+      a.download = resource.title ? resource.title.replace(/\s+/g, "_") : "resource";
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(href);
+      pushNotice("Download started", "info");
+    } catch (err) {
+      console.error(err);
+      setFileStatus("Could not download file. Please try again.");
+      pushNotice("Download failed", "error");
+    }
+  };
+
+  const handleSend = async () => {
+    if (!authToken) {
+      pushNotice("Please sign in first.", "error");
+      return;
+    }
+    const trimmed = input.trim();
+    if (!trimmed || isLoading) return;
+
+    const nextMessages: Message[] = [...messages, { role: "user", content: trimmed }];
+    const replyIndex = nextMessages.length;
+    setMessages([...nextMessages, { role: "assistant", content: "", resources: [], streaming: true }]);
+    setInput("");
+    setIsLoading(true);
+
+    const updateReply = (update: (msg: Message) => Message) =>
+      setMessages((prev) => prev.map((msg, idx) => (idx === replyIndex ? update(msg) : msg)));
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let conversationId = activeConversationId;
+
+    try {
+      // The server keeps the history of saved conversations; history is only sent if one could not be created
+      conversationId = conversationId ?? (await createConversation());
+      const res = await fetch(`${API_BASE}/api/chat/stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({
+          message: trimmed,
+          ...(conversationId ? { conversationId } : { history: historyForApi }),
+          ...(chatPatientId ? { patientId: chatPatientId } : {}),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!res.ok || !res.body) {
         const err = await res.json().catch(() => ({ error: "Unknown error" }));
-        if (err.fallback) {
-          const fallbackMessage: Message = {
-            role: "assistant",
-            content: err.fallback.reply || "Assistant unavailable; showing local matches.",
-            resources: err.fallback.resources || [],
-          };
-          setMessages([...nextMessages, fallbackMessage]);
-          return;
-        }
         throw new Error(err.error || "Chat request failed");
       }
 
-      const data = await res.json();
-      const assistantMessage: Message = {
-        role: "assistant",
-        content: data.reply || "I couldn't generate a response.",
-        resources: data.resources || [],
-      };
-      setMessages([...nextMessages, assistantMessage]);
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let finished = false;
+
+      while (!finished) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const parsed = parseSseBuffer(buffer);
+        buffer = parsed.rest;
+
+        parsed.events.forEach(({ event, data }) => {
+          const payload = data ? JSON.parse(data) : {};
+          if (event === "resources") {
+            updateReply((msg) => ({ ...msg, resources: payload.resources || [] }));
+          } else if (event === "token") {
+            updateReply((msg) => ({ ...msg, content: msg.content + (payload.delta || "") }));
+          } else if (event === "insights") {
+            const insights = new Map<string, string>(
+              (payload.insights || []).map((item: { id: string; insight?: string }) => [item.id, item.insight || ""]),
+            );
+            updateReply((msg) => ({
+              ...msg,
+              resources: msg.resources?.map((r) => (insights.get(r.id) ? { ...r, insight: insights.get(r.id) } : r)),
+            }));
+          } else if (event === "done") {
+            updateReply((msg) => ({
+              ...msg,
+              content: msg.content || payload.reply || "I couldn't generate a response.",
+              streaming: false,
+            }));
+            updateReply((msg) => ({ ...msg, citations: payload.citations || [] }));
+            if (payload.conversationId) touchConversation(payload.conversationId, payload.title);
+            finished = true;
+          } else if (event === "error") {
+            updateReply(() => ({
+              role: "assistant",
+              content: payload.fallback?.reply || payload.error || "Assistant unavailable; showing local matches.",
+              resources: payload.fallback?.resources || [],
+            }));
+            finished = true;
+          }
+        });
+      }
+      updateReply((msg) => ({ ...msg, streaming: false }));
     } catch (error) {
+      if (controller.signal.aborted) {
+        updateReply((msg) => ({ ...msg, streaming: false, stopped: true }));
+        if (conversationId) touchConversation(conversationId);
+        return;
+      }
       console.error(error);
-      const errorMessage: Message = {
+      updateReply(() => ({
         role: "assistant",
         content:
           error instanceof Error
             ? `I ran into an issue reaching the assistant: ${error.message}`
             : "I ran into an issue reaching the assistant. Please check the server or your API key.",
-      };
-      setMessages([...nextMessages, errorMessage]);
+      }));
     } finally {
+      chatAbortRef.current = null;
       setIsLoading(false);
+      refreshUsage();
+    }
+  };
+
+  const handleStop = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  const createConversation = async (): Promise<string | null> => {
+    try {
+      const res = await fetch(`${API_BASE}/api/conversations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify(chatPatientId ? { patientId: chatPatientId } : {}),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to create conversation");
+      }
+      const data = await res.json();
+      const created = data.data as ConversationSummary;
+      setConversations((prev) => [{ ...created, messageCount: 0 }, ...prev]);
+      setActiveConversationId(created.id);
+      return created.id;
+    } catch (err) {
+      console.error(err);
+      pushNotice("Could not save this conversation; replies will not be kept.", "error");
+      return null;
+    }
+  };
+
+  // Moves a conversation to the top after a new turn, taking the title the server assigned to new threads
+  const touchConversation = (conversationId: string, title?: string) => {
+    setConversations((prev) => {
+      const current = prev.find((c) => c.id === conversationId);
+      if (!current) return prev;
+      const updated = {
+        ...current,
+        title: title || current.title,
+        updatedAt: new Date().toISOString(),
+        messageCount: (current.messageCount || 0) + 2,
+      };
+      return [updated, ...prev.filter((c) => c.id !== conversationId)];
+    });
+  };
+
+  const handleNewConversation = (patientId: string | null = null) => {
+    if (isLoading) return;
+    setActiveConversationId(null);
+    setChatPatientId(patientId);
+    setMessages([initialAssistant]);
+  };
+
+  const handleStartPatientChat = (patient: Patient) => {
+    if (isLoading) {
+      pushNotice("Wait for the current reply to finish first.", "info");
+      return;
+    }
+    handleNewConversation(patient.id);
+    setShowPatientModal(false);
+    closePatientDetail();
+    pushNotice(`Chatting about ${patient.name}`, "info");
+  };
+
+  const handleOpenConversation = async (conversationId: string) => {
+    if (!authToken || isLoading || conversationId === activeConversationId) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/conversations/${conversationId}`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      if (res.status === 401) {
+        handleAuthError();
+        return;
+      }
+      if (!res.ok) {
+        throw new Error("Failed to load conversation");
+      }
+      const data = await res.json();
+      const stored = (data.data?.messages || []) as Message[];
+      setActiveConversationId(conversationId);
+      setChatPatientId(data.data?.patientId || null);
+      setMessages([
+        initialAssistant,
+        ...stored.map(({ role, content, resources, citations, stopped }) => ({
+          role,
+          content,
+          resources,
+          citations,
+          stopped,
+        })),
+      ]);
+    } catch (err) {
+      console.error(err);
+      pushNotice("Could not open conversation.", "error");
+    }
+  };
+
+  const handleRenameConversation = async (conversationId: string, title: string) => {
+    const trimmed = title.trim();
+    setEditingConversationId(null);
+    if (!trimmed || !authToken) return;
+    const previous = conversations.find((c) => c.id === conversationId)?.title;
+    if (previous === trimmed) return;
+    setConversations((prev) => prev.map((c) => (c.id === conversationId ? { ...c, title: trimmed } : c)));
+    try {
+      const res = await fetch(`${API_BASE}/api/conversations/${conversationId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
+        body: JSON.stringify({ title: trimmed }),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to rename conversation");
+      }
+    } catch (err) {
+      console.error(err);
+      setConversations((prev) =>
+        prev.map((c) => (c.id === conversationId && previous ? { ...c, title: previous } : c)),
+      );
+      pushNotice("Could not rename conversation.", "error");
+    }
+  };
+
+  const handleDeleteConversation = async (conversationId: string) => {
+    if (!authToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/conversations/${conversationId}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      if (!res.ok && res.status !== 204) {
+        throw new Error("Failed to delete conversation");
+      }
+      setConversations((prev) => prev.filter((c) => c.id !== conversationId));
+      if (activeConversationId === conversationId) handleNewConversation();
+      pushNotice("Conversation deleted.", "info");
+    } catch (err) {
+      console.error(err);
+      pushNotice("Could not delete conversation.", "error");
     }
   };
 
@@ -780,7 +2324,7 @@ function App() {
     try {
       const res = await fetch(`${API_BASE}/api/upload`, {
         method: "POST",
-        headers: { "Content-Type": "application/json", Authorization: `Basic ${authToken}` },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
         body: JSON.stringify({
           ...uploadForm,
           tags: normalizedTags,
@@ -794,6 +2338,7 @@ function App() {
 
       const data = await res.json();
       setLibrary((prev) => [data.data, ...prev]);
+      refreshFolderCounts();
       closeUploadModal();
       setUploadForm({
         title: "",
@@ -840,7 +2385,7 @@ function App() {
     try {
       const res = await fetch(`${API_BASE}/api/resources/${editResourceId}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json", Authorization: `Basic ${authToken}` },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
         body: JSON.stringify({
           ...uploadForm,
           tags: normalizedTags,
@@ -855,6 +2400,7 @@ function App() {
       const data = await res.json();
       setLibrary((prev) => prev.map((item) => (item.id === editResourceId ? data.data : item)));
       syncResourceUpdateInChat(data.data);
+      syncResourceInSearch(data.data);
       closeUploadModal();
       setEditResourceId(null);
       setUploadForm({
@@ -897,7 +2443,7 @@ function App() {
       const res = await fetch(`${API_BASE}/api/upload-file`, {
         method: "POST",
         body: formData,
-        headers: { Authorization: `Basic ${authToken}` },
+        headers: { Authorization: `Bearer ${authToken}` },
       });
 
       if (!res.ok) {
@@ -940,9 +2486,8 @@ function App() {
       return;
     }
     if (!id) return;
-    const resource = library.find((r) => r.id === id);
+    const resource = library.find((r) => r.id === id) ?? searchResults?.find((r) => r.id === id);
     if (!resource) return;
-    const prevFolder = resourceFolderMap[id];
 
     const affectedMsgIndices = messages.reduce<number[]>((acc, msg, idx) => {
       if (msg.resources?.some((r) => r.id === id)) acc.push(idx);
@@ -950,11 +2495,7 @@ function App() {
     }, []);
 
     setLibrary((prev) => prev.filter((r) => r.id !== id));
-    setResourceFolderMap((prev) => {
-      const next = { ...prev };
-      delete next[id];
-      return next;
-    });
+    setSearchResults((prev) => (prev ? prev.filter((r) => r.id !== id) : prev));
     syncResourceDeleteInChat(id);
 
     const undoDelete = () => {
@@ -964,10 +2505,7 @@ function App() {
         delete deleteTimers.current[id];
       }
       setLibrary((prev) => [resource, ...prev]);
-      setResourceFolderMap((prev) => {
-        if (!prevFolder) return prev;
-        return { ...prev, [id]: prevFolder };
-      });
+      setSearchResults((prev) => (prev ? [resource, ...prev] : prev));
       setMessages((prev) =>
         prev.map((msg, idx) =>
           affectedMsgIndices.includes(idx)
@@ -986,20 +2524,17 @@ function App() {
       try {
         const res = await fetch(`${API_BASE}/api/resources/${id}`, {
           method: "DELETE",
-          headers: { Authorization: `Basic ${authToken}` },
+          headers: { Authorization: `Bearer ${authToken}` },
         });
         if (!res.ok) {
           throw new Error("Delete failed");
         }
         delete deleteTimers.current[id];
+        refreshFolderCounts();
         pushNotice("Resource deleted", "info");
       } catch (err) {
         console.error(err);
         setLibrary((prev) => [resource, ...prev]);
-        setResourceFolderMap((prev) => {
-          if (!prevFolder) return prev;
-          return { ...prev, [id]: prevFolder };
-        });
         setMessages((prev) =>
           prev.map((msg, idx) =>
             affectedMsgIndices.includes(idx)
@@ -1049,6 +2584,102 @@ function App() {
     },
   });
 
+  const renderResourceSharing = (res: Resource) => {
+    if (!isOwnResource(res)) {
+      return (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <span className="rounded-full bg-sky-50 px-2 py-0.5 text-[11px] font-semibold text-sky-700">
+            Shared by {res.ownerEmail || res.ownerId}
+            {res.teamId && teamMap[res.teamId] ? ` · ${teamMap[res.teamId].name}` : ""}
+          </span>
+        </div>
+      );
+    }
+    if (!canEditResource(res) || (teams.length === 0 && !res.teamId)) return null;
+
+    return (
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <select
+          value={res.teamId || ""}
+          onChange={(e) => updateResourceSharing(res.id, e.target.value || null)}
+          className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-ink outline-none focus:border-accent"
+          aria-label="Sharing"
+        >
+          <option value="">Private</option>
+          {res.teamId && !teamMap[res.teamId] && <option value={res.teamId}>Shared with a team</option>}
+          {teams.map((t) => (
+            <option key={t.id} value={t.id}>
+              Shared with {t.name}
+            </option>
+          ))}
+        </select>
+      </div>
+    );
+  };
+
+  const renderResourceGoals = (res: Resource) => {
+    const linked = (res.goalIds || []).filter((gid) => goalMap[gid]);
+    const linkable = goals.filter((g) => g.status === "active" && !linked.includes(g.id));
+    if (linked.length === 0 && linkable.length === 0) return null;
+
+    return (
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        {linked.map((gid) => {
+          const goal = goalMap[gid];
+          return (
+            <span
+              key={gid}
+              title={`${patientMap[goal.patientId]?.name || "Patient"} · ${goal.criterion}`}
+              className="flex items-center gap-1 rounded-full bg-accentSoft px-2 py-0.5 text-[11px] font-semibold text-accent"
+            >
+              {goalLabel(goal)}
+              {goal.status !== "active" && (
+                <span className="text-[10px] font-medium text-accent/70">
+                  ({GOAL_STATUS_OPTIONS.find((option) => option.value === goal.status)?.label})
+                </span>
+              )}
+              <button
+                onClick={() => updateResourceGoal(res.id, goal, false)}
+                className="text-[10px] text-accent hover:text-ink"
+                aria-label="Remove goal link"
+              >
+                ✕
+              </button>
+            </span>
+          );
+        })}
+        {linkable.length > 0 && (
+          <select
+            onChange={(e) => {
+              const goal = goalMap[e.target.value];
+              if (goal) updateResourceGoal(res.id, goal, true);
+              e.currentTarget.value = "";
+            }}
+            defaultValue=""
+            className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-ink outline-none focus:border-accent"
+          >
+            <option value="" disabled>
+              Link to goal
+            </option>
+            {patients
+              .filter((p) => linkable.some((g) => g.patientId === p.id))
+              .map((p) => (
+                <optgroup key={p.id} label={p.name}>
+                  {linkable
+                    .filter((g) => g.patientId === p.id)
+                    .map((g) => (
+                      <option key={g.id} value={g.id}>
+                        {goalLabel(g)}
+                      </option>
+                    ))}
+                </optgroup>
+              ))}
+          </select>
+        )}
+      </div>
+    );
+  };
+
   const renderResources = (resources?: Resource[]) => {
     if (!resources || resources.length === 0) return null;
 
@@ -1070,6 +2701,7 @@ function App() {
                 {res.description}
               </p>
             )}
+            {renderPassage(res.passage)}
             <div className="mt-2 flex flex-wrap gap-1">
               {res.tags?.slice(0, 4).map((tag) => (
                 <span
@@ -1085,42 +2717,46 @@ function App() {
                 </span>
               )}
             </div>
-            <div className="mt-2 flex flex-wrap items-center gap-2">
-              {(res.patientIds || []).map((pid) => (
-                <span
-                  key={pid}
-                  className="flex items-center gap-1 rounded-full bg-orange-50 px-2 py-0.5 text-[11px] font-semibold text-orange-700"
-                >
-                  {patientMap[pid]?.name || "Patient"}
-                  <button
-                    onClick={() => handleRemovePatient(res, pid)}
-                    className="text-[10px] text-orange-700 hover:text-orange-900"
-                    aria-label="Remove patient"
+            {renderResourceSharing(res)}
+            {canLinkPatients(res) && (
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                {(res.patientIds || []).map((pid) => (
+                  <span
+                    key={pid}
+                    className="flex items-center gap-1 rounded-full bg-orange-50 px-2 py-0.5 text-[11px] font-semibold text-orange-700"
                   >
-                    ✕
-                  </button>
-                </span>
-              ))}
-              {patients.length > 0 && (
-                <select
-                  onChange={(e) => {
-                    handleAssignPatient(res, e.target.value);
-                    e.currentTarget.value = "";
-                  }}
-                  defaultValue=""
-                  className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-ink outline-none focus:border-accent"
-                >
-                  <option value="" disabled>
-                    Assign to patient
-                  </option>
-                  {patients.map((p) => (
-                    <option key={p.id} value={p.id}>
-                      {p.name}
+                    {patientMap[pid]?.name || "Patient"}
+                    <button
+                      onClick={() => handleRemovePatient(res, pid)}
+                      className="text-[10px] text-orange-700 hover:text-orange-900"
+                      aria-label="Remove patient"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                ))}
+                {patients.length > 0 && (
+                  <select
+                    onChange={(e) => {
+                      handleAssignPatient(res, e.target.value);
+                      e.currentTarget.value = "";
+                    }}
+                    defaultValue=""
+                    className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-ink outline-none focus:border-accent"
+                  >
+                    <option value="" disabled>
+                      Assign to patient
                     </option>
-                  ))}
-                </select>
-              )}
-            </div>
+                    {patients.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+            {canLinkPatients(res) && renderResourceGoals(res)}
             <div className="mt-3 flex items-center justify-between text-xs text-slate-500">
               <div className="flex flex-wrap items-center gap-2">
                 <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-700">
@@ -1134,41 +2770,46 @@ function App() {
                 </span>
               </div>
               <div className="flex items-center gap-1">
-                <button
-                  onClick={() => {
-                    setEditResourceId(res.id);
-                    setUploadForm({
-                      title: res.title || "",
-                      description: res.description || "",
-                      url: res.url || "",
-                      fileId: res.fileId || "",
-                      tags: res.tags || [],
-                      ageRange: res.ageRange || "",
-                      type: res.type || "",
-                      uploadedBy: res.uploadedBy || "",
-                    });
-                    setReturnToLibraryAfterEdit(true);
-                    setShowLibrary(false);
-                    setShowUpload(true);
-                  }}
-                  className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-semibold text-accent transition hover:border-accent hover:bg-accentSoft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
-                  aria-label="Edit resource"
-                >
-                  Edit
-                </button>
-                <button
-                  type="button"
-                  onClick={() => handleDelete(res.id)}
-                  className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-semibold text-red-500 transition hover:border-red-200 hover:bg-red-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-400"
-                  aria-label="Delete resource"
-                >
-                  Delete
-                </button>
+                {canEditResource(res) && (
+                  <>
+                    <button
+                      onClick={() => {
+                        setEditResourceId(res.id);
+                        setUploadForm({
+                          title: res.title || "",
+                          description: res.description || "",
+                          url: res.url || "",
+                          fileId: res.fileId || "",
+                          tags: res.tags || [],
+                          ageRange: res.ageRange || "",
+                          type: res.type || "",
+                          uploadedBy: res.uploadedBy || "",
+                        });
+                        setReturnToLibraryAfterEdit(true);
+                        setShowLibrary(false);
+                        setShowUpload(true);
+                      }}
+                      className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-semibold text-accent transition hover:border-accent hover:bg-accentSoft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+                      aria-label="Edit resource"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(res.id)}
+                      className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-semibold text-red-500 transition hover:border-red-200 hover:bg-red-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-400"
+                      aria-label="Delete resource"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
                 {res.url && res.url.startsWith("http") && !res.fileId ? (
                   <a
                     href={res.url}
                     target="_blank"
                     rel="noopener noreferrer"
+                    onClick={() => markResourceUsed(res.id)}
                     className="rounded-full border border-ink/20 px-3 py-1 text-[11px] font-semibold text-ink transition hover:border-accent hover:text-accent"
                     aria-label="Open link"
                   >
@@ -1261,6 +2902,11 @@ function App() {
                   placeholder=""
                 />
               </div>
+              {loginError && (
+                <p role="alert" className="rounded-xl bg-red-50 px-3 py-2 text-sm text-red-600">
+                  {loginError}
+                </p>
+              )}
               <button
                 onClick={handleLogin}
                 className="w-full rounded-full bg-accent px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:brightness-110"
@@ -1298,17 +2944,101 @@ function App() {
                 Manage patients
               </button>
               <button
-                onClick={() => setShowUpload(true)}
-                className="rounded-full bg-ink px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:-translate-y-[1px] hover:bg-ink/90"
+                onClick={() => setShowTeamModal(true)}
+                className="rounded-full border border-ink/10 bg-white/80 px-4 py-2 text-sm font-semibold text-ink shadow-sm transition hover:-translate-y-[1px] hover:border-ink/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+                aria-label="Manage teams"
               >
-                Upload resource
+                Teams
               </button>
+              {can("resources:write") && (
+                <button
+                  onClick={() => setShowUpload(true)}
+                  className="rounded-full bg-ink px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:-translate-y-[1px] hover:bg-ink/90"
+                >
+                  Upload resource
+                </button>
+              )}
             </div>
           </div>
         </header>
 
         <div className="grid gap-6 lg:grid-cols-[320px,1fr]">
           <aside className="flex flex-col gap-4 rounded-3xl bg-white/80 p-4 shadow-lg ring-1 ring-white/60 backdrop-blur">
+            <div className="rounded-2xl border border-slate-200 bg-white/90 p-4 shadow-sm">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-semibold text-ink">Conversations</p>
+                <button
+                  onClick={() => handleNewConversation()}
+                  disabled={isLoading}
+                  className="rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  New chat
+                </button>
+              </div>
+              <div className="mt-3 flex max-h-64 flex-col gap-1 overflow-y-auto">
+                {conversations.length === 0 && (
+                  <p className="text-xs text-slate-500">Planning threads you start are saved here.</p>
+                )}
+                {conversations.map((conversation) => (
+                  <div
+                    key={conversation.id}
+                    onClick={() => handleOpenConversation(conversation.id)}
+                    className={`flex cursor-pointer items-center justify-between gap-2 rounded-xl border px-3 py-2 transition ${
+                      activeConversationId === conversation.id
+                        ? "border-accent bg-accentSoft/40"
+                        : "border-transparent hover:border-slate-200 hover:bg-slate-50"
+                    }`}
+                  >
+                    {editingConversationId === conversation.id ? (
+                      <input
+                        autoFocus
+                        defaultValue={conversation.title}
+                        onClick={(e) => e.stopPropagation()}
+                        onBlur={(e) => handleRenameConversation(conversation.id, e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleRenameConversation(conversation.id, (e.target as HTMLInputElement).value);
+                          if (e.key === "Escape") setEditingConversationId(null);
+                        }}
+                        className="w-full rounded-lg border border-slate-200 px-2 py-1 text-sm outline-none focus:border-accent"
+                      />
+                    ) : (
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-semibold text-ink">{conversation.title}</p>
+                        <p className="truncate text-xs text-slate-500">
+                          {new Date(conversation.updatedAt).toLocaleDateString()}
+                          {conversation.patientId && patientMap[conversation.patientId]
+                            ? ` · ${patientMap[conversation.patientId].name}`
+                            : ""}
+                        </p>
+                      </div>
+                    )}
+                    {editingConversationId !== conversation.id && (
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEditingConversationId(conversation.id);
+                          }}
+                          className="text-xs font-semibold text-accent hover:underline"
+                        >
+                          Rename
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteConversation(conversation.id);
+                          }}
+                          className="text-xs font-semibold text-red-500 hover:underline"
+                          aria-label={`Delete conversation ${conversation.title}`}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
             <div className="rounded-2xl border border-white/60 bg-gradient-to-br from-white via-foam to-sky/10 p-4 shadow-sm">
               <p className="text-sm font-semibold text-ink">Quick prompts</p>
               <div className="mt-3 flex flex-col gap-2">
@@ -1356,8 +3086,62 @@ function App() {
             <div className="mt-auto rounded-2xl border border-slate-200 bg-white/90 px-4 py-3 shadow-sm">
               <div className="text-xs">
                 <p className="font-semibold text-ink">{userProfile?.name || "Signed in"}</p>
-                <p className="text-slate-500">Secure session</p>
+                <p className="text-slate-500">
+                  {userProfile?.role ? `${ROLE_LABELS[userProfile.role]} · secure session` : "Secure session"}
+                </p>
+                {aiUsage && (
+                  <p className={aiUsage.lexicalOnly ? "mt-1 text-amber-700" : "mt-1 text-slate-500"}>
+                    {aiUsage.lexicalOnly
+                      ? "AI budget used: search and chat are keyword-only this month"
+                      : aiUsage.budget
+                        ? `AI usage: ${aiUsage.totalTokens.toLocaleString()} of ${aiUsage.budget.toLocaleString()} tokens this month`
+                        : `AI usage: ${aiUsage.totalTokens.toLocaleString()} tokens this month`}
+                  </p>
+                )}
               </div>
+              {passwordForm ? (
+                <div className="mt-2 space-y-2">
+                  {(
+                    [
+                      ["current", "Current password"],
+                      ["next", "New password"],
+                      ["confirm", "Confirm new password"],
+                    ] as const
+                  ).map(([key, label]) => (
+                    <input
+                      key={key}
+                      type="password"
+                      value={passwordForm[key]}
+                      onChange={(e) => setPasswordForm((f) => (f ? { ...f, [key]: e.target.value } : f))}
+                      className="w-full rounded-xl border border-slate-200 px-3 py-1.5 text-xs outline-none focus:border-accent"
+                      placeholder={label}
+                      aria-label={label}
+                    />
+                  ))}
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleChangePassword}
+                      disabled={changingPassword}
+                      className="flex-1 rounded-full bg-accent px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm transition hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {changingPassword ? "Saving..." : "Save"}
+                    </button>
+                    <button
+                      onClick={() => setPasswordForm(null)}
+                      className="flex-1 rounded-full border border-slate-200 px-3 py-1.5 text-[11px] font-semibold text-slate-600 hover:border-ink"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setPasswordForm({ current: "", next: "", confirm: "" })}
+                  className="mt-2 text-[11px] font-semibold text-accent hover:underline"
+                >
+                  Change password
+                </button>
+              )}
               <button
                 onClick={handleLogout}
                 className="mt-2 w-full rounded-full bg-red-500 px-4 py-2 text-[11px] font-semibold text-white shadow-sm transition hover:-translate-y-[1px] hover:bg-red-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-200"
@@ -1369,17 +3153,39 @@ function App() {
 
           <main className="rounded-3xl border border-white/70 bg-white/90 shadow-xl backdrop-blur">
             <div className="flex h-[75vh] flex-col">
+              {chatPatientId && (
+                <div className="flex items-center justify-between gap-3 border-b border-slate-100 px-6 py-3 text-sm">
+                  <p className="text-slate-600">
+                    Planning for{" "}
+                    <span className="font-semibold text-ink">{patientMap[chatPatientId]?.name || "a patient"}</span>
+                    <span className="text-slate-500"> · replies use their notes and linked resources</span>
+                  </p>
+                  <button
+                    onClick={() => handleNewConversation()}
+                    disabled={isLoading}
+                    className="rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 transition hover:border-ink disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    General chat
+                  </button>
+                </div>
+              )}
               <div className="flex-1 space-y-4 overflow-y-auto px-6 py-5">
                 {messages.map((msg, idx) => (
                   <div key={idx} className="flex flex-col gap-2">
                     {msg.role === "assistant" ? (
-                      <div className="max-w-3xl rounded-2xl bg-slate-50 px-4 py-3 text-sm leading-relaxed text-ink">
-                        <div className="prose prose-sm max-w-none prose-p:mt-2 prose-p:first:mt-0 prose-a:text-accent prose-a:underline">
-                          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
-                            {msg.content}
-                          </ReactMarkdown>
+                      (msg.content || !msg.streaming) && (
+                        <div className="max-w-3xl rounded-2xl bg-slate-50 px-4 py-3 text-sm leading-relaxed text-ink">
+                          <div className="prose prose-sm max-w-none prose-p:mt-2 prose-p:first:mt-0 prose-a:text-accent prose-a:underline">
+                            <ReactMarkdown remarkPlugins={[remarkGfm]} components={replyComponents(msg)}>
+                              {linkCitations(msg.content, msg.citations) ||
+                                (msg.stopped ? "_Stopped before a reply was generated._" : "")}
+                            </ReactMarkdown>
+                          </div>
+                          {msg.stopped && msg.content && (
+                            <p className="mt-2 text-xs text-slate-500">Stopped.</p>
+                          )}
                         </div>
-                      </div>
+                      )
                     ) : (
                       <div className="ml-auto max-w-3xl rounded-2xl bg-gradient-to-br from-accent via-accent to-grape px-4 py-3 text-sm leading-relaxed text-white shadow">
                         {msg.content.split("\n").map((line, i) => (
@@ -1392,7 +3198,7 @@ function App() {
                     {msg.role === "assistant" && renderResources(msg.resources)}
                   </div>
                 ))}
-                {isLoading && (
+                {isLoading && !messages[messages.length - 1]?.content && (
                   <div className="flex items-center gap-2 text-sm text-slate-500">
                     <span className="h-2 w-2 animate-ping rounded-full bg-accent"></span>
                     Thinking...
@@ -1407,17 +3213,32 @@ function App() {
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
                     onKeyDown={handleKeyPress}
-                    placeholder="Ask for articulation drills, AAC boards, language checklists..."
+                    disabled={!can("chat")}
+                    placeholder={
+                      can("chat")
+                        ? "Ask for articulation drills, AAC boards, language checklists..."
+                        : "Your role can search the library but not use the assistant."
+                    }
                     className="max-h-32 w-full resize-none border-none bg-transparent text-sm text-ink outline-none focus:ring-0"
                     rows={2}
                   />
-                  <button
-                    onClick={handleSend}
-                    disabled={isLoading}
-                    className="h-10 min-w-[90px] rounded-full bg-gradient-to-r from-accent to-grape px-4 text-sm font-semibold text-white shadow-sm transition hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-60"
-                  >
-                    Send
-                  </button>
+                  {isLoading ? (
+                    <button
+                      onClick={handleStop}
+                      className="h-10 min-w-[90px] rounded-full border border-slate-300 bg-white px-4 text-sm font-semibold text-ink shadow-sm transition hover:border-red-300 hover:text-red-600"
+                      aria-label="Stop generating"
+                    >
+                      Stop
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleSend}
+                      disabled={!can("chat")}
+                      className="h-10 min-w-[90px] rounded-full bg-gradient-to-r from-accent to-grape px-4 text-sm font-semibold text-white shadow-sm transition hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      Send
+                    </button>
+                  )}
                 </div>
                 <p className="mt-2 text-xs text-slate-500">Connected to OpenAI for responses.</p>
               </div>
@@ -1441,9 +3262,9 @@ function App() {
                 <input
                   value={libraryFilter}
                   onChange={(e) => setLibraryFilter(e.target.value)}
-                  placeholder="Filter by title, tag, type..."
+                  placeholder="Search titles, tags, file text..."
                   className="w-56 rounded-full border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
-                  aria-label="Filter library"
+                  aria-label="Search library"
                 />
                 <button
                   onClick={() => setShowLibrary(false)}
@@ -1455,34 +3276,86 @@ function App() {
               </div>
             </div>
 
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={searchFilters.type}
+                onChange={(e) => setSearchFilters((prev) => ({ ...prev, type: e.target.value }))}
+                placeholder="Type"
+                className="w-32 rounded-full border border-slate-200 px-3 py-1 text-xs outline-none focus:border-accent"
+                aria-label="Filter by type"
+              />
+              <input
+                value={searchFilters.ageRange}
+                onChange={(e) => setSearchFilters((prev) => ({ ...prev, ageRange: e.target.value }))}
+                placeholder="Age range"
+                className="w-32 rounded-full border border-slate-200 px-3 py-1 text-xs outline-none focus:border-accent"
+                aria-label="Filter by age range"
+              />
+              <input
+                value={searchFilters.tags}
+                onChange={(e) => setSearchFilters((prev) => ({ ...prev, tags: e.target.value }))}
+                placeholder="Tags (comma separated)"
+                className="w-48 rounded-full border border-slate-200 px-3 py-1 text-xs outline-none focus:border-accent"
+                aria-label="Filter by tags"
+              />
+              {patients.length > 0 && (
+                <select
+                  value={searchFilters.patientId}
+                  onChange={(e) => setSearchFilters((prev) => ({ ...prev, patientId: e.target.value }))}
+                  className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs text-ink outline-none focus:border-accent"
+                  aria-label="Filter by patient"
+                >
+                  <option value="">Any patient</option>
+                  {patients.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {(libraryFilter || Object.values(searchFilters).some(Boolean)) && (
+                <button
+                  onClick={() => {
+                    setLibraryFilter("");
+                    setSearchFilters(EMPTY_SEARCH_FILTERS);
+                  }}
+                  className="text-xs font-semibold text-accent hover:underline"
+                >
+                  Clear search
+                </button>
+              )}
+            </div>
+
             <div className="grid gap-4 lg:grid-cols-[260px,1fr]">
               <aside className="space-y-3 rounded-2xl border border-slate-200 bg-slate-50/70 p-4">
-                <div className="flex items-center gap-2">
-                  <input
-                    value={newFolderName}
-                    onChange={(e) => setNewFolderName(e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter") handleCreateFolder();
-                    }}
-                    placeholder="New folder"
-                    className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:border-accent"
-                  />
-                  <button
-                    onClick={handleCreateFolder}
-                    className="rounded-lg bg-accent px-3 py-2 text-sm font-semibold text-white shadow-sm transition hover:brightness-110"
-                  >
-                    Add
-                  </button>
-                </div>
+                {can("resources:write") && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={newFolderName}
+                      onChange={(e) => setNewFolderName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleCreateFolder();
+                      }}
+                      placeholder="New folder"
+                      className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:border-accent"
+                    />
+                    <button
+                      onClick={handleCreateFolder}
+                      className="rounded-lg bg-accent px-3 py-2 text-sm font-semibold text-white shadow-sm transition hover:brightness-110"
+                    >
+                      Add
+                    </button>
+                  </div>
+                )}
 
                 <div className="space-y-1">
                   {folders.map((folder) => {
                     const count =
                       folder.id === "all"
-                        ? library.length
+                        ? folderCounts.total
                         : folder.id === "unsorted"
-                          ? library.filter((r) => !resourceFolderMap[r.id]).length
-                          : library.filter((r) => resourceFolderMap[r.id] === folder.id).length;
+                          ? folderCounts.unsorted
+                          : folderCounts.folders[folder.id] || 0;
 
                     return (
                       <div
@@ -1516,16 +3389,28 @@ function App() {
                           )}
                           <span className="text-xs text-slate-500">{count} items</span>
                         </div>
-                        {!folder.isLocked && editingFolderId !== folder.id && (
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setEditingFolderId(folder.id);
-                            }}
-                            className="text-xs font-semibold text-accent hover:underline"
-                          >
-                            Rename
-                          </button>
+                        {!folder.isLocked && editingFolderId !== folder.id && can("resources:write") && (
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setEditingFolderId(folder.id);
+                              }}
+                              className="text-xs font-semibold text-accent hover:underline"
+                            >
+                              Rename
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeleteFolder(folder.id);
+                              }}
+                              className="text-xs font-semibold text-red-500 hover:underline"
+                              aria-label={`Delete folder ${folder.name}`}
+                            >
+                              Delete
+                            </button>
+                          </div>
                         )}
                       </div>
                     );
@@ -1537,15 +3422,43 @@ function App() {
                 </p>
               </aside>
 
-              <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+              <section
+                onScroll={handleLibraryScroll}
+                className="max-h-[65vh] overflow-y-auto rounded-2xl border border-slate-200 bg-white p-4 shadow-sm"
+              >
                 <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
                   <div>
                     <p className="text-sm font-semibold text-ink">Resources</p>
-                    <p className="text-xs text-slate-500">
-                      Viewing {filteredLibrary.length} of {library.length} total
-                    </p>
+                    {searchResults ? (
+                      <p className="text-xs text-slate-500">
+                        {filteredLibrary.length} match{filteredLibrary.length === 1 ? "" : "es"}, best first
+                      </p>
+                    ) : (
+                      <p className="text-xs text-slate-500">
+                        Viewing {filteredLibrary.length} of{" "}
+                        {selectedFolderId === "all"
+                          ? folderCounts.total
+                          : selectedFolderId === "unsorted"
+                            ? folderCounts.unsorted
+                            : folderCounts.folders[selectedFolderId] || 0}{" "}
+                        total
+                      </p>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
+                    <select
+                      value={librarySort}
+                      onChange={(e) => setLibrarySort(e.target.value as LibrarySort)}
+                      disabled={!!searchResults}
+                      className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-ink outline-none focus:border-accent"
+                      aria-label="Sort library"
+                    >
+                      {LIBRARY_SORT_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
                     <span className="text-[11px] font-semibold text-slate-500">
                       Drag to organize · Drop on a folder
                     </span>
@@ -1557,7 +3470,7 @@ function App() {
                   </div>
                 </div>
 
-                {filteredLibrary.length === 0 ? (
+                {filteredLibrary.length === 0 && !libraryLoading && !searchLoading ? (
                   <div className="rounded-xl border border-dashed border-slate-200 bg-slate-50/60 p-6 text-center text-sm text-slate-500">
                     No resources in this view yet. Drag items here or pick a different folder.
                   </div>
@@ -1566,7 +3479,7 @@ function App() {
                     {filteredLibrary.map((res) => (
                       <div
                         key={res.id}
-                        draggable
+                        draggable={canEditResource(res)}
                         onDragStart={() => {
                           if (!res.id) return;
                           setDraggingResourceId(res.id);
@@ -1580,11 +3493,21 @@ function App() {
                       >
                         <div className="flex items-center justify-between gap-2">
                           <p className="text-sm font-semibold text-ink">{res.title}</p>
-                          {res.type && (
-                            <span className="rounded-full bg-accentSoft px-2 py-0.5 text-[11px] font-medium text-accent">
-                              {formatType(res.type) || "Resource"}
-                            </span>
-                          )}
+                          <div className="flex items-center gap-1">
+                            {searchResults && typeof res.score === "number" && res.score > 0 && (
+                              <span
+                                className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-600"
+                                title={describeRetrieval(res.retrieval)}
+                              >
+                                {res.score.toFixed(3)}
+                              </span>
+                            )}
+                            {res.type && (
+                              <span className="rounded-full bg-accentSoft px-2 py-0.5 text-[11px] font-medium text-accent">
+                                {formatType(res.type) || "Resource"}
+                              </span>
+                            )}
+                          </div>
                         </div>
                         <p className="mt-1 text-sm text-slate-600">{res.insight || res.description}</p>
                         {res.insight && (
@@ -1592,6 +3515,20 @@ function App() {
                             {res.description}
                           </p>
                         )}
+                        {searchResults && renderPassage(res.passage)}
+                        {searchResults && res.highlights && res.highlights.length > 0 && (
+                          <div className="mt-1 space-y-0.5">
+                            {res.highlights
+                              .filter((h) => h.field !== "title" && !(h.field === "text" && res.passage))
+                              .slice(0, 2)
+                              .map((h) => (
+                                <p key={h.field} className="text-xs text-slate-500">
+                                  <span className="font-semibold text-slate-600">{HIGHLIGHT_LABELS[h.field]}:</span>{" "}
+                                  {renderHighlight(h.snippet, h.terms)}
+                                </p>
+                              ))}
+                          </div>
+                        )}
                         <div className="mt-2 flex flex-wrap gap-1">
                           {res.tags?.slice(0, 4).map((tag) => (
                             <span
@@ -1607,42 +3544,45 @@ function App() {
                             </span>
                           )}
                         </div>
-                        <div className="mt-2 flex flex-wrap items-center gap-2">
-                          {(res.patientIds || []).map((pid) => (
-                            <span
-                              key={pid}
-                              className="flex items-center gap-1 rounded-full bg-orange-50 px-2 py-0.5 text-[11px] font-semibold text-orange-700"
-                            >
-                              {patientMap[pid]?.name || "Patient"}
-                              <button
-                                onClick={() => handleRemovePatient(res, pid)}
-                                className="text-[10px] text-orange-700 hover:text-orange-900"
-                                aria-label="Remove patient"
+                        {renderResourceSharing(res)}
+                        {canLinkPatients(res) && (
+                          <div className="mt-2 flex flex-wrap items-center gap-2">
+                            {(res.patientIds || []).map((pid) => (
+                              <span
+                                key={pid}
+                                className="flex items-center gap-1 rounded-full bg-orange-50 px-2 py-0.5 text-[11px] font-semibold text-orange-700"
                               >
-                                ✕
-                              </button>
-                            </span>
-                          ))}
-                          {patients.length > 0 && (
-                            <select
-                              onChange={(e) => {
-                                handleAssignPatient(res, e.target.value);
-                                e.currentTarget.value = "";
-                              }}
-                              defaultValue=""
-                              className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-ink outline-none focus:border-accent"
-                            >
-                              <option value="" disabled>
-                                Assign to patient
-                              </option>
-                              {patients.map((p) => (
-                                <option key={p.id} value={p.id}>
-                                  {p.name}
+                                {patientMap[pid]?.name || "Patient"}
+                                <button
+                                  onClick={() => handleRemovePatient(res, pid)}
+                                  className="text-[10px] text-orange-700 hover:text-orange-900"
+                                  aria-label="Remove patient"
+                                >
+                                  ✕
+                                </button>
+                              </span>
+                            ))}
+                            {patients.length > 0 && (
+                              <select
+                                onChange={(e) => {
+                                  handleAssignPatient(res, e.target.value);
+                                  e.currentTarget.value = "";
+                                }}
+                                defaultValue=""
+                                className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-ink outline-none focus:border-accent"
+                              >
+                                <option value="" disabled>
+                                  Assign to patient
                                 </option>
-                              ))}
-                            </select>
-                          )}
-                        </div>
+                                {patients.map((p) => (
+                                  <option key={p.id} value={p.id}>
+                                    {p.name}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                        )}
                         <div className="mt-3 flex items-center justify-between text-xs text-slate-500">
                           <div className="flex flex-wrap items-center gap-2">
                             <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-700">
@@ -1656,35 +3596,38 @@ function App() {
                             </span>
                           </div>
                           <div className="flex items-center gap-2">
-                            <button
-                              type="button"
-                              onClick={() => {
-                                setEditResourceId(res.id);
-                                setUploadForm({
-                                  title: res.title || "",
-                                  description: res.description || "",
-                                  url: res.url || "",
-                                  fileId: res.fileId || "",
-                                  tags: res.tags || [],
-                                  ageRange: res.ageRange || "",
-                                  type: res.type || "",
-                                  uploadedBy: res.uploadedBy || "",
-                                });
-                                setReturnToLibraryAfterEdit(true);
-                                setShowLibrary(false);
-                                setShowUpload(true);
-                              }}
-                              className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-semibold text-accent transition hover:border-accent hover:bg-accentSoft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
-                              aria-label="Edit resource"
-                            >
-                              Edit
-                            </button>
+                            {canEditResource(res) && (
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  setEditResourceId(res.id);
+                                  setUploadForm({
+                                    title: res.title || "",
+                                    description: res.description || "",
+                                    url: res.url || "",
+                                    fileId: res.fileId || "",
+                                    tags: res.tags || [],
+                                    ageRange: res.ageRange || "",
+                                    type: res.type || "",
+                                    uploadedBy: res.uploadedBy || "",
+                                  });
+                                  setReturnToLibraryAfterEdit(true);
+                                  setShowLibrary(false);
+                                  setShowUpload(true);
+                                }}
+                                className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-semibold text-accent transition hover:border-accent hover:bg-accentSoft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+                                aria-label="Edit resource"
+                              >
+                                Edit
+                              </button>
+                            )}
                             <div className="flex items-center gap-1">
                               {res.url && res.url.startsWith("http") && !res.fileId ? (
                                 <a
                                   href={res.url}
                                   target="_blank"
                                   rel="noopener noreferrer"
+                                  onClick={() => markResourceUsed(res.id)}
                                   className="rounded-full border border-ink/20 px-3 py-1 text-[11px] font-semibold text-ink transition hover:border-accent hover:text-accent"
                                   aria-label="Open link"
                                 >
@@ -1716,14 +3659,16 @@ function App() {
                                   </button>
                                 </>
                               )}
-                              <button
-                                type="button"
-                                onClick={() => handleDelete(res.id)}
-                                className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-semibold text-red-500 transition hover:border-red-200 hover:bg-red-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-400"
-                                aria-label="Delete resource"
-                              >
-                                Delete
-                              </button>
+                              {canEditResource(res) && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleDelete(res.id)}
+                                  className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-semibold text-red-500 transition hover:border-red-200 hover:bg-red-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-400"
+                                  aria-label="Delete resource"
+                                >
+                                  Delete
+                                </button>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -1731,6 +3676,22 @@ function App() {
                     ))}
                   </div>
                 )}
+                {(libraryLoading || searchLoading) && (
+                  <div className="mt-3 flex items-center justify-center gap-2 text-xs text-slate-500">
+                    <span className="h-2 w-2 animate-ping rounded-full bg-accent" />
+                    {searchLoading ? "Searching..." : "Loading resources..."}
+                  </div>
+                )}
+                {!libraryLoading && libraryCursor && !searchResults && (
+                  <div className="mt-3 flex justify-center">
+                    <button
+                      onClick={() => loadLibraryPage(libraryCursor)}
+                      className="rounded-full border border-slate-200 px-4 py-1 text-xs font-semibold text-ink transition hover:border-accent hover:text-accent"
+                    >
+                      Load more
+                    </button>
+                  </div>
+                )}
               </section>
             </div>
           </div>
@@ -1743,69 +3704,707 @@ function App() {
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold text-ink">Manage patients</h2>
               <button
-                onClick={() => setShowPatientModal(false)}
+                onClick={() => {
+                  setShowPatientModal(false);
+                  closePatientDetail();
+                }}
                 className="rounded-full border border-slate-200 px-3 py-1 text-sm text-slate-600 hover:border-ink"
               >
                 Close
               </button>
             </div>
-            <div className="mt-4 space-y-4">
-              <div className="grid gap-3 md:grid-cols-2">
-                <div className="space-y-1">
-                  <label className="text-sm font-medium text-ink">Name</label>
-                  <input
-                    value={newPatient.name}
-                    onChange={(e) => setNewPatient((p) => ({ ...p, name: e.target.value }))}
-                    className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
-                    placeholder="Patient name"
-                  />
-                </div>
-                <div className="space-y-1">
-                  <label className="text-sm font-medium text-ink">Notes (optional)</label>
-                  <textarea
-                    value={newPatient.notes}
-                    onChange={(e) => setNewPatient((p) => ({ ...p, notes: e.target.value }))}
-                    className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
-                    rows={3}
-                    placeholder="Goals, reminders, etc."
-                  />
-                </div>
-              </div>
-              <div className="flex justify-end">
+            {selectedPatientId && patientDraft ? (
+              <div className="mt-4 space-y-3">
                 <button
-                  onClick={async () => {
-                    await handleAddPatient();
-                  }}
-                  className="rounded-full bg-accent px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:brightness-110"
+                  onClick={closePatientDetail}
+                  className="text-xs font-semibold text-accent hover:underline"
                 >
-                  Save patient
+                  ← All patients
                 </button>
-              </div>
-
-              <div className="rounded-2xl border border-slate-200 bg-slate-50/80 p-3">
-                <p className="text-sm font-semibold text-ink">Patients</p>
-                <div className="mt-2 flex flex-wrap gap-2">
-                  {patients.length === 0 ? (
-                    <p className="text-xs text-slate-500">No patients yet. Add one to start assigning resources.</p>
-                  ) : (
-                    patients.map((p) => (
-                      <span
-                        key={p.id}
-                        className="flex items-center gap-3 rounded-full bg-white px-3 py-1 text-[12px] font-semibold text-ink shadow-sm"
-                      >
-                        {p.name}
+                <div className="grid gap-3 md:grid-cols-2">
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium text-ink">Name</label>
+                    <input
+                      value={patientDraft.name}
+                      onChange={(e) => setPatientDraft((d) => (d ? { ...d, name: e.target.value } : d))}
+                      className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium text-ink">
+                      Date of birth
+                      {patientMap[selectedPatientId]?.age !== undefined && (
+                        <span className="ml-2 text-xs font-normal text-slate-500">
+                          age {patientMap[selectedPatientId]?.age}
+                        </span>
+                      )}
+                    </label>
+                    <input
+                      type="date"
+                      value={patientDraft.dateOfBirth}
+                      onChange={(e) => setPatientDraft((d) => (d ? { ...d, dateOfBirth: e.target.value } : d))}
+                      className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium text-ink">Communication</label>
+                    <select
+                      value={patientDraft.communicationModality}
+                      onChange={(e) =>
+                        setPatientDraft((d) =>
+                          d ? { ...d, communicationModality: e.target.value as CommunicationModality | "" } : d,
+                        )
+                      }
+                      className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                    >
+                      <option value="">Not recorded</option>
+                      {MODALITY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium text-ink">Caseload status</label>
+                    <select
+                      value={patientDraft.status}
+                      onChange={(e) =>
+                        setPatientDraft((d) => (d ? { ...d, status: e.target.value as CaseloadStatus } : d))
+                      }
+                      className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                    >
+                      <option value="active">Active</option>
+                      <option value="discharged">Discharged</option>
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium text-ink">Diagnoses</label>
+                    <input
+                      value={patientDraft.diagnoses}
+                      onChange={(e) => setPatientDraft((d) => (d ? { ...d, diagnoses: e.target.value } : d))}
+                      className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                      placeholder="Comma separated, e.g. CAS, phonological disorder"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium text-ink">Target sounds</label>
+                    <input
+                      value={patientDraft.targetSounds}
+                      onChange={(e) => setPatientDraft((d) => (d ? { ...d, targetSounds: e.target.value } : d))}
+                      className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                      placeholder="Comma separated, e.g. /r/, s-blends"
+                    />
+                  </div>
+                </div>
+                {can("patients:notes") && (
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium text-ink">Notes</label>
+                    <textarea
+                      value={patientDraft.notes}
+                      onChange={(e) => setPatientDraft((d) => (d ? { ...d, notes: e.target.value } : d))}
+                      className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                      rows={3}
+                    />
+                  </div>
+                )}
+                <div className="rounded-2xl border border-slate-200 bg-slate-50/80 p-3">
+                  <p className="text-sm font-semibold text-ink">Goals</p>
+                  <div className="mt-2 space-y-2">
+                    {goals.filter((g) => g.patientId === selectedPatientId).length === 0 ? (
+                      <p className="text-xs text-slate-500">No goals yet. Add one below to link resources to it.</p>
+                    ) : (
+                      goals
+                        .filter((g) => g.patientId === selectedPatientId)
+                        .map((g) => (
+                          <div
+                            key={g.id}
+                            className="flex flex-wrap items-start justify-between gap-2 rounded-xl bg-white px-3 py-2 shadow-sm"
+                          >
+                            <div className="min-w-0">
+                              <p className="text-sm font-semibold text-ink">{goalLabel(g)}</p>
+                              <p className="text-xs text-slate-600">{g.criterion}</p>
+                              <p className="text-[11px] text-slate-500">
+                                Started {formatDate(`${g.startDate}T00:00:00`)}
+                                {g.reviewDate ? ` · review ${formatDate(`${g.reviewDate}T00:00:00`)}` : ""}
+                              </p>
+                            </div>
+                            {can("patients:write") && (
+                              <div className="flex items-center gap-2">
+                                <select
+                                  value={g.status}
+                                  onChange={(e) => handleUpdateGoalStatus(g, e.target.value as GoalStatus)}
+                                  className="rounded-full border border-slate-200 bg-white px-2 py-1 text-[11px] font-semibold text-ink outline-none focus:border-accent"
+                                  aria-label="Goal status"
+                                >
+                                  {GOAL_STATUS_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                      {option.label}
+                                    </option>
+                                  ))}
+                                </select>
+                                <button
+                                  onClick={() => handleDeleteGoal(g)}
+                                  className="text-[11px] font-semibold text-red-500 hover:text-red-700"
+                                  aria-label={`Delete goal ${g.target}`}
+                                >
+                                  Delete
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        ))
+                    )}
+                  </div>
+                  {can("patients:write") && (
+                    <>
+                      <div className="mt-3 grid gap-2 md:grid-cols-2">
+                        <select
+                          value={goalDraft.domain}
+                          onChange={(e) => setGoalDraft((d) => ({ ...d, domain: e.target.value as GoalDomain }))}
+                          className="rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                          aria-label="Goal domain"
+                        >
+                          {GOAL_DOMAIN_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          value={goalDraft.target}
+                          onChange={(e) => setGoalDraft((d) => ({ ...d, target: e.target.value }))}
+                          className="rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                          placeholder="Target, e.g. /s/ in initial position at phrase level"
+                        />
+                        <input
+                          value={goalDraft.criterion}
+                          onChange={(e) => setGoalDraft((d) => ({ ...d, criterion: e.target.value }))}
+                          className="rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent md:col-span-2"
+                          placeholder="Criterion, e.g. 80% accuracy across 3 consecutive sessions"
+                        />
+                        <label className="space-y-1 text-xs font-medium text-slate-600">
+                          Start date
+                          <input
+                            type="date"
+                            value={goalDraft.startDate}
+                            onChange={(e) => setGoalDraft((d) => ({ ...d, startDate: e.target.value }))}
+                            className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm text-ink outline-none focus:border-accent"
+                          />
+                        </label>
+                        <label className="space-y-1 text-xs font-medium text-slate-600">
+                          Review date
+                          <input
+                            type="date"
+                            value={goalDraft.reviewDate}
+                            onChange={(e) => setGoalDraft((d) => ({ ...d, reviewDate: e.target.value }))}
+                            className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm text-ink outline-none focus:border-accent"
+                          />
+                        </label>
+                      </div>
+                      <div className="mt-2 flex justify-end">
                         <button
-                          onClick={() => handleDeletePatient(p.id)}
-                          className="text-[11px] font-semibold text-red-500 hover:text-red-700"
-                          aria-label={`Delete ${p.name}`}
+                          onClick={handleAddGoal}
+                          disabled={savingGoal}
+                          className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-60"
                         >
-                          Delete
+                          {savingGoal ? "Adding..." : "Add goal"}
                         </button>
-                      </span>
-                    ))
+                      </div>
+                    </>
+                  )}
+                </div>
+                <div className="rounded-2xl border border-slate-200 bg-slate-50/80 p-3">
+                  <p className="text-sm font-semibold text-ink">Progress</p>
+                  <div className="mt-2 space-y-3">
+                    {goalProgress.length === 0 ? (
+                      <p className="text-xs text-slate-500">Add goals and log sessions to track accuracy over time.</p>
+                    ) : (
+                      goalProgress
+                        .filter((progress) => goalMap[progress.goalId])
+                        .map((progress) => (
+                          <div key={progress.goalId} className="rounded-xl bg-white px-3 py-2 shadow-sm">
+                            <div className="flex items-center justify-between gap-2">
+                              <p className="text-sm font-semibold text-ink">{goalLabel(goalMap[progress.goalId])}</p>
+                              {progress.points.length > 0 && (
+                                <span className="text-[11px] font-semibold text-slate-600">
+                                  {formatPercent(progress.points[progress.points.length - 1].accuracy)} last ·{" "}
+                                  {formatPercent(progress.totals.accuracy)} overall
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-[11px] text-slate-500">{goalMap[progress.goalId].criterion}</p>
+                            {renderProgressChart(progress.points)}
+                          </div>
+                        ))
+                    )}
+                  </div>
+                </div>
+                {can("patients:write") && (
+                  <div className="rounded-2xl border border-slate-200 bg-slate-50/80 p-3">
+                    <p className="text-sm font-semibold text-ink">Plan a session</p>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      <input
+                        value={planFocus}
+                        onChange={(e) => setPlanFocus(e.target.value)}
+                        className="min-w-0 flex-1 rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                        placeholder="Optional focus, e.g. carryover into conversation"
+                      />
+                      <button
+                        onClick={handlePlanSession}
+                        disabled={planning}
+                        className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        {planning ? "Planning..." : planDraft ? "Replan" : "Draft plan"}
+                      </button>
+                    </div>
+                    {planDraft && (
+                      <div className="mt-3 space-y-3">
+                        {planDraft.droppedReferences > 0 && (
+                          <p className="text-[11px] text-amber-700">
+                            {planDraft.droppedReferences} reference(s) to materials outside your library were removed.
+                          </p>
+                        )}
+                        {PLAN_SECTIONS.map(({ key, label }) => (
+                          <div key={key}>
+                            <p className="text-xs font-semibold text-slate-600">{label}</p>
+                            {planDraft.plan[key].length === 0 ? (
+                              <p className="text-[11px] text-slate-500">Nothing planned.</p>
+                            ) : (
+                              planDraft.plan[key].map((step, idx) => {
+                                const resource = planDraft.resources.find((r) => r.id === step.resourceId);
+                                return (
+                                  <div key={idx} className="mt-1 rounded-xl bg-white px-3 py-2 shadow-sm">
+                                    <div className="flex items-start gap-2">
+                                      <textarea
+                                        value={step.text}
+                                        onChange={(e) => updatePlanStep(key, idx, e.target.value)}
+                                        className="min-w-0 flex-1 resize-y rounded-lg border border-slate-200 px-2 py-1 text-xs text-ink outline-none focus:border-accent"
+                                        rows={2}
+                                      />
+                                      <button
+                                        onClick={() => updatePlanStep(key, idx, null)}
+                                        className="text-[11px] text-slate-500 hover:text-red-600"
+                                        aria-label={`Remove ${label.toLowerCase()} step`}
+                                      >
+                                        ✕
+                                      </button>
+                                    </div>
+                                    <div className="mt-1 flex flex-wrap gap-1">
+                                      {step.minutes && (
+                                        <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-700">
+                                          {step.minutes} min
+                                        </span>
+                                      )}
+                                      {step.goalId && goalMap[step.goalId] && (
+                                        <span className="rounded-full bg-accentSoft px-2 py-0.5 text-[11px] font-semibold text-accent">
+                                          {goalLabel(goalMap[step.goalId])}
+                                        </span>
+                                      )}
+                                      {resource && (
+                                        <button
+                                          onClick={() => openCitedResource(resource)}
+                                          className="rounded-full bg-orange-50 px-2 py-0.5 text-[11px] font-semibold text-orange-700 hover:underline"
+                                        >
+                                          {resource.title}
+                                        </button>
+                                      )}
+                                    </div>
+                                  </div>
+                                );
+                              })
+                            )}
+                          </div>
+                        ))}
+                        <p className="text-[11px] text-slate-500">Edit the plan, then log the session below to save it.</p>
+                      </div>
+                    )}
+                  </div>
+                )}
+                {can("patients:write") && (
+                  <div className="rounded-2xl border border-slate-200 bg-slate-50/80 p-3">
+                    <p className="text-sm font-semibold text-ink">Log a session</p>
+                    <div className="mt-2 grid gap-2 md:grid-cols-2">
+                      <label className="space-y-1 text-xs font-medium text-slate-600">
+                        Date
+                        <input
+                          type="date"
+                          value={sessionDraft.date}
+                          onChange={(e) => setSessionDraft((d) => ({ ...d, date: e.target.value }))}
+                          className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm text-ink outline-none focus:border-accent"
+                        />
+                      </label>
+                      <label className="space-y-1 text-xs font-medium text-slate-600">
+                        Minutes
+                        <input
+                          type="number"
+                          min={1}
+                          value={sessionDraft.durationMinutes}
+                          onChange={(e) => setSessionDraft((d) => ({ ...d, durationMinutes: e.target.value }))}
+                          className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm text-ink outline-none focus:border-accent"
+                        />
+                      </label>
+                      <textarea
+                        value={sessionDraft.notes}
+                        onChange={(e) => setSessionDraft((d) => ({ ...d, notes: e.target.value }))}
+                        className="rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent md:col-span-2"
+                        rows={2}
+                        placeholder="What was worked on"
+                      />
+                    </div>
+                    {goals.some((g) => g.patientId === selectedPatientId && g.status === "active") && (
+                      <div className="mt-2 space-y-1">
+                        <p className="text-xs font-medium text-slate-600">Trials</p>
+                        {goals
+                          .filter((g) => g.patientId === selectedPatientId && g.status === "active")
+                          .map((g) => (
+                            <div key={g.id} className="flex flex-wrap items-center gap-2 rounded-xl bg-white px-3 py-2 shadow-sm">
+                              <span className="min-w-0 flex-1 text-xs font-semibold text-ink">{goalLabel(g)}</span>
+                              {TRIAL_FIELDS.map((field) => (
+                                <label key={field.key} className="flex items-center gap-1 text-[11px] text-slate-600">
+                                  {field.label}
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    value={sessionDraft.trials[g.id]?.[field.key] ?? 0}
+                                    onChange={(e) => updateSessionTrial(g.id, field.key, e.target.value)}
+                                    className="w-14 rounded-lg border border-slate-200 px-2 py-1 text-xs text-ink outline-none focus:border-accent"
+                                  />
+                                </label>
+                              ))}
+                            </div>
+                          ))}
+                      </div>
+                    )}
+                    {sessionResourceOptions.length > 0 && (
+                      <div className="mt-2">
+                        <p className="text-xs font-medium text-slate-600">Resources used</p>
+                        <div className="mt-1 flex flex-wrap gap-2">
+                          {sessionResourceOptions.map((r) => {
+                            const used = sessionDraft.resourceIds.includes(r.id);
+                            return (
+                              <button
+                                key={r.id}
+                                onClick={() =>
+                                  setSessionDraft((d) => ({
+                                    ...d,
+                                    resourceIds: used ? d.resourceIds.filter((rid) => rid !== r.id) : [...d.resourceIds, r.id],
+                                  }))
+                                }
+                                aria-pressed={used}
+                                className={`rounded-full px-3 py-1 text-[12px] font-semibold shadow-sm transition ${
+                                  used ? "bg-accent text-white" : "bg-white text-ink hover:text-accent"
+                                }`}
+                              >
+                                {r.title}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+                    <div className="mt-2 flex justify-end">
+                      <button
+                        onClick={handleLogSession}
+                        disabled={savingSession}
+                        className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        {savingSession ? "Saving..." : "Log session"}
+                      </button>
+                    </div>
+                    {patientSessions.length > 0 && (
+                      <div className="mt-3 space-y-2">
+                        <p className="text-xs font-medium text-slate-600">Recent sessions</p>
+                        {patientSessions.map((session) => (
+                          <div key={session.id} className="rounded-xl bg-white px-3 py-2 text-xs text-slate-600 shadow-sm">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-semibold text-ink">
+                                {formatDate(`${session.date}T00:00:00`)}
+                                {session.durationMinutes ? ` · ${session.durationMinutes} min` : ""}
+                              </span>
+                              {can("patients:write") && (
+                                <button
+                                  onClick={() => handleDeleteSession(session)}
+                                  className="text-[11px] font-semibold text-red-500 hover:text-red-700"
+                                  aria-label="Delete session"
+                                >
+                                  Delete
+                                </button>
+                              )}
+                            </div>
+                            {session.notes && <p className="mt-1">{session.notes}</p>}
+                            {session.trials.map((t) => (
+                              <p key={t.goalId}>
+                                {goalMap[t.goalId] ? goalLabel(goalMap[t.goalId]) : "Deleted goal"}: {t.correct} correct,{" "}
+                                {t.incorrect} incorrect, {t.prompted} prompted
+                              </p>
+                            ))}
+                            {session.resources.length > 0 && (
+                              <p className="mt-1 text-slate-500">Used: {session.resources.map((r) => r.title).join(", ")}</p>
+                            )}
+                            {session.plan && (
+                              <details className="mt-1">
+                                <summary className="cursor-pointer text-[11px] font-semibold text-accent">Session plan</summary>
+                                {PLAN_SECTIONS.filter(({ key }) => session.plan?.[key].length).map(({ key, label }) => (
+                                  <div key={key} className="mt-1">
+                                    <p className="font-semibold text-slate-700">{label}</p>
+                                    <ul className="list-disc pl-4">
+                                      {session.plan?.[key].map((step, idx) => <li key={idx}>{step.text}</li>)}
+                                    </ul>
+                                  </div>
+                                ))}
+                              </details>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                <div className="rounded-2xl border border-slate-200 bg-slate-50/80 p-3">
+                  <p className="text-sm font-semibold text-ink">Linked resources</p>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {patientResources.length === 0 ? (
+                      <p className="text-xs text-slate-500">No resources linked to this patient yet.</p>
+                    ) : (
+                      patientResources.map((r) => (
+                        <span
+                          key={r.id}
+                          className="rounded-full bg-white px-3 py-1 text-[12px] font-semibold text-ink shadow-sm"
+                        >
+                          {r.title}
+                        </span>
+                      ))
+                    )}
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                  {can("patients:notes") && (
+                    <button
+                      onClick={() => patientMap[selectedPatientId] && handleStartPatientChat(patientMap[selectedPatientId])}
+                      className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-ink transition hover:border-accent hover:text-accent"
+                    >
+                      Chat about patient
+                    </button>
+                  )}
+                  {can("patients:write") && (
+                    <button
+                      onClick={handleSavePatient}
+                      disabled={savingPatient}
+                      className="rounded-full bg-accent px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {savingPatient ? "Saving..." : "Save changes"}
+                    </button>
                   )}
                 </div>
               </div>
+            ) : (
+              <div className="mt-4 space-y-4">
+                {can("patients:write") && (
+                  <>
+                    <div className="grid gap-3 md:grid-cols-2">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium text-ink">Name</label>
+                        <input
+                          value={newPatient.name}
+                          onChange={(e) => setNewPatient((p) => ({ ...p, name: e.target.value }))}
+                          className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                          placeholder="Patient name"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium text-ink">Notes (optional)</label>
+                        <textarea
+                          value={newPatient.notes}
+                          onChange={(e) => setNewPatient((p) => ({ ...p, notes: e.target.value }))}
+                          className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                          rows={3}
+                          placeholder="Goals, reminders, etc."
+                        />
+                      </div>
+                    </div>
+                    <div className="flex justify-end">
+                      <button
+                        onClick={async () => {
+                          await handleAddPatient();
+                        }}
+                        className="rounded-full bg-accent px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:brightness-110"
+                      >
+                        Save patient
+                      </button>
+                    </div>
+                  </>
+                )}
+
+                <div className="rounded-2xl border border-slate-200 bg-slate-50/80 p-3">
+                  <p className="text-sm font-semibold text-ink">Patients</p>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {patients.length === 0 ? (
+                      <p className="text-xs text-slate-500">No patients yet. Add one to start assigning resources.</p>
+                    ) : (
+                      patients.map((p) => (
+                        <span
+                          key={p.id}
+                          className="flex items-center gap-3 rounded-full bg-white px-3 py-1 text-[12px] font-semibold text-ink shadow-sm"
+                        >
+                          <button
+                            onClick={() => handleOpenPatient(p)}
+                            className="hover:text-accent hover:underline"
+                            aria-label={`Open ${p.name}`}
+                          >
+                            {p.name}
+                          </button>
+                          {p.unreadable && (
+                            <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-semibold text-amber-700">
+                              Unreadable record
+                            </span>
+                          )}
+                          {p.status === "discharged" && (
+                            <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[10px] font-semibold text-slate-500">
+                              Discharged
+                            </span>
+                          )}
+                          {can("patients:notes") && (
+                            <button
+                              onClick={() => handleStartPatientChat(p)}
+                              className="text-[11px] font-semibold text-accent hover:underline"
+                              aria-label={`Start a chat about ${p.name}`}
+                            >
+                              Chat
+                            </button>
+                          )}
+                          {can("patients:delete") && (
+                            <button
+                              onClick={() => handleDeletePatient(p.id)}
+                              className="text-[11px] font-semibold text-red-500 hover:text-red-700"
+                              aria-label={`Delete ${p.name}`}
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </span>
+                      ))
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showTeamModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4 backdrop-blur">
+          <div className="w-full max-w-lg rounded-3xl bg-white p-6 shadow-xl">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-ink">Teams</h2>
+              <button
+                onClick={() => setShowTeamModal(false)}
+                className="rounded-full border border-slate-200 px-3 py-1 text-sm text-slate-600 hover:border-ink"
+              >
+                Close
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-slate-500">
+              Members see the resources shared with a team in their library, search and chat. Patient links stay private.
+            </p>
+            {can("teams:manage") && (
+              <div className="mt-4 flex gap-2">
+                <input
+                  value={newTeamName}
+                  onChange={(e) => setNewTeamName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleCreateTeam();
+                  }}
+                  className="flex-1 rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:border-accent"
+                  placeholder="New team name"
+                />
+                <button
+                  onClick={handleCreateTeam}
+                  className="rounded-full bg-accent px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:brightness-110"
+                >
+                  Create team
+                </button>
+              </div>
+            )}
+            <div className="mt-4 max-h-[60vh] space-y-3 overflow-y-auto">
+              {teams.length === 0 ? (
+                <p className="text-xs text-slate-500">You are not in any teams yet.</p>
+              ) : (
+                teams.map((team) => {
+                  const isTeamOwner = team.members.some(
+                    (m) => m.username === userProfile?.name && m.role === "owner",
+                  );
+                  const canManage = isTeamOwner && can("teams:manage");
+                  return (
+                    <div key={team.id} className="rounded-2xl border border-slate-200 bg-slate-50/80 p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm font-semibold text-ink">{team.name}</p>
+                        <div className="flex items-center gap-3">
+                          <button
+                            onClick={() => userProfile?.name && handleRemoveMember(team, userProfile.name)}
+                            className="text-[11px] font-semibold text-slate-600 hover:text-ink"
+                          >
+                            Leave
+                          </button>
+                          {canManage && (
+                            <button
+                              onClick={() => handleDeleteTeam(team)}
+                              className="text-[11px] font-semibold text-red-500 hover:text-red-700"
+                              aria-label={`Delete ${team.name}`}
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {team.members.map((m) => (
+                          <span
+                            key={m.username}
+                            className="flex items-center gap-2 rounded-full bg-white px-3 py-1 text-[12px] font-semibold text-ink shadow-sm"
+                          >
+                            {m.username}
+                            {m.role === "owner" && (
+                              <span className="rounded-full bg-accentSoft px-2 py-0.5 text-[10px] font-semibold text-accent">
+                                Owner
+                              </span>
+                            )}
+                            {isTeamOwner && m.username !== userProfile?.name && (
+                              <button
+                                onClick={() => handleRemoveMember(team, m.username)}
+                                className="text-[10px] text-slate-500 hover:text-red-600"
+                                aria-label={`Remove ${m.username}`}
+                              >
+                                ✕
+                              </button>
+                            )}
+                          </span>
+                        ))}
+                      </div>
+                      {canManage && (
+                        <div className="mt-2 flex gap-2">
+                          <input
+                            value={memberDrafts[team.id] || ""}
+                            onChange={(e) => setMemberDrafts((prev) => ({ ...prev, [team.id]: e.target.value }))}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") handleAddMember(team);
+                            }}
+                            className="flex-1 rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs outline-none focus:border-accent"
+                            placeholder="Username"
+                          />
+                          <button
+                            onClick={() => handleAddMember(team)}
+                            className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-accent hover:border-accent"
+                          >
+                            Add member
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
             </div>
           </div>
         </div>
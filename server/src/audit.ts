@@ -0,0 +1,90 @@
+import type { ServerResponse } from "http";
+import { getAuditLogCollection } from "./db";
+import type { AuditEntry } from "./types";
+
+// Append-only audit trail of patient-data access and changes. The app only ever inserts into audit_log; there is
+// no route or helper that updates or deletes entries.
+
+export const recordAudit = async (entry: AuditEntry) => {
+  const col = await getAuditLogCollection();
+  await col.insertOne(entry);
+};
+
+// Calls `done` once the response is over. A response sent in full emits "finish" and then "close"; one the client
+// abandons (a stopped chat stream, a cancelled download) emits only "close", so that is reported as aborted.
+export const onResponseDone = (res: ServerResponse, done: (aborted: boolean) => void) => {
+  let reported = false;
+  const report = (aborted: boolean) => {
+    if (reported) return;
+    reported = true;
+    done(aborted);
+  };
+  res.once("finish", () => report(false));
+  res.once("close", () => report(!res.writableFinished));
+};
+
+export const ensureAuditIndexes = async () => {
+  const col = await getAuditLogCollection();
+  await col.createIndex({ at: -1 });
+  await col.createIndex({ actor: 1, at: -1 });
+  await col.createIndex({ targetId: 1, at: -1 });
+  await col.createIndex({ action: 1, at: -1 });
+};
+
+type AuditQuery = Record<string, unknown>;
+
+const readString = (query: AuditQuery, key: string) => {
+  const value = query[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+};
+
+// Filters for the admin query and export routes: actor, action, targetType, targetId, requestId and a from/to
+// range on `at` (ISO dates or timestamps)
+export const parseAuditFilter = (query: AuditQuery): { filter: Record<string, unknown> } | { error: string } => {
+  const filter: Record<string, unknown> = {};
+  for (const key of ["actor", "action", "targetType", "targetId", "requestId"]) {
+    const value = readString(query, key);
+    if (value) filter[key] = value;
+  }
+  const range: Record<string, Date> = {};
+  for (const [key, op] of [
+    ["from", "$gte"],
+    ["to", "$lte"],
+  ]) {
+    const value = readString(query, key);
+    if (!value) continue;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return { error: `${key} must be a date` };
+    }
+    range[op] = date;
+  }
+  if (Object.keys(range).length > 0) filter.at = range;
+  return { filter };
+};
+
+export const AUDIT_CSV_COLUMNS = [
+  "at",
+  "requestId",
+  "actor",
+  "role",
+  "action",
+  "targetType",
+  "targetId",
+  "method",
+  "path",
+  "status",
+  "ip",
+  "details",
+] as const;
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  const text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // A leading quote stops spreadsheet apps from evaluating user-supplied text as a formula (OWASP CSV injection)
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toAuditCsvRow = (entry: AuditEntry) =>
+  AUDIT_CSV_COLUMNS.map((column) => csvCell(entry[column])).join(",");
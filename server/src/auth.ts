@@ -0,0 +1,42 @@
+import crypto from "crypto";
+
+// Password hashing and session tokens. Hashes are stored as scrypt$N$r$p$<salt>$<key> so the cost can be raised
+// later without invalidating existing hashes; session tokens are only ever stored as SHA-256 digests.
+
+const SCRYPT_COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const scrypt = (password: string, salt: Buffer, options: { N: number; r: number; p: number }) =>
+  new Promise<Buffer>((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, { ...options, maxmem: 64 * 1024 * 1024 }, (err, key) =>
+      err ? reject(err) : resolve(key),
+    );
+  });
+
+export const hashPassword = async (password: string) => {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, SCRYPT_COST);
+  const { N, r, p } = SCRYPT_COST;
+  return `scrypt$${N}$${r}$${p}$${salt.toString("base64")}$${key.toString("base64")}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, N, r, p, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+  const expected = Buffer.from(key, "base64");
+  const actual = await scrypt(password, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) });
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+// Checked against when a username does not exist, so unknown and known usernames take the same time to reject
+let decoyHash: Promise<string> | null = null;
+export const getDecoyHash = () => {
+  if (!decoyHash) decoyHash = hashPassword(crypto.randomBytes(16).toString("hex"));
+  return decoyHash;
+};
+
+export const createSessionToken = () => crypto.randomBytes(32).toString("base64url");
+
+export const hashSessionToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
@@ -0,0 +1,57 @@
+// Splits extracted document text into overlapping passages for passage-level embeddings.
+// PDF text is stored with a form feed after every page, which is how passages know their page number.
+
+export const PAGE_BREAK = "\f";
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+export const MAX_CHUNKS_PER_RESOURCE = 300;
+
+export type TextChunk = { index: number; text: string; start: number; page?: number };
+
+// Pages are counted from the breaks before `offset`; text without breaks (DOCX, older extractions) has no pages.
+const pageAt = (text: string, offset: number, hasPages: boolean) => {
+  if (!hasPages) return undefined;
+  let page = 1;
+  for (let i = text.indexOf(PAGE_BREAK); i !== -1 && i < offset; i = text.indexOf(PAGE_BREAK, i + 1)) page += 1;
+  return page;
+};
+
+// Cuts prefer a paragraph, then sentence, then word boundary in the last third of the window.
+const findCut = (text: string, start: number) => {
+  const hardEnd = Math.min(start + CHUNK_SIZE, text.length);
+  if (hardEnd === text.length) return hardEnd;
+  const window = text.slice(start, hardEnd);
+  const minCut = Math.floor(CHUNK_SIZE * 0.66);
+  for (const boundary of [/\n\s*\n|\f/g, /[.!?]\s/g, /\s/g]) {
+    let last = -1;
+    for (const match of window.matchAll(boundary)) {
+      if ((match.index ?? 0) >= minCut) last = (match.index ?? 0) + match[0].length;
+    }
+    if (last > 0) return start + last;
+  }
+  return hardEnd;
+};
+
+export const chunkText = (text: string): TextChunk[] => {
+  const hasPages = text.includes(PAGE_BREAK);
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  while (start < text.length && chunks.length < MAX_CHUNKS_PER_RESOURCE) {
+    // Skip leading whitespace so passages (and their page numbers) start on real text
+    while (start < text.length && /\s/.test(text[start])) start += 1;
+    if (start >= text.length) break;
+
+    const end = findCut(text, start);
+    const passage = text.slice(start, end).replace(/\f/g, "\n").trim();
+    if (passage) {
+      chunks.push({ index: chunks.length, text: passage, start, page: pageAt(text, start, hasPages) });
+    }
+    if (end >= text.length) break;
+    // Step back for the overlap, then forward to a word boundary so passages do not open mid-word
+    const overlapStart = Math.max(end - CHUNK_OVERLAP, start + 1);
+    const nextSpace = text.slice(overlapStart, end).search(/\s/);
+    start = nextSpace === -1 ? overlapStart : overlapStart + nextSpace;
+  }
+  return chunks;
+};
@@ -0,0 +1,60 @@
+import type { Citation, Resource } from "./types";
+
+// The chat prompt numbers the retrieved resources and asks the model to cite them as `**Title** [n]`.
+// A bare `[n]` is accepted too; the bolded title, when present, is checked against resource n.
+const CITATION_PATTERN = /(?:\*\*([^*\n]+?)\*\*\s*)?\[(\d{1,3})\]/g;
+
+const normalizeTitle = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const titlesMatch = (written: string, actual: string) => {
+  const a = normalizeTitle(written);
+  const b = normalizeTitle(actual);
+  return !!a && !!b && (a === b || a.includes(b) || b.includes(a));
+};
+
+// Finds citation markers in a reply and resolves them against the resources that were in the prompt.
+// Markers pointing outside the list, or whose written title names a different resource, are kept but flagged.
+export const extractCitations = (reply: string, resources: Resource[]): Citation[] => {
+  const citations: Citation[] = [];
+  for (const match of reply.matchAll(CITATION_PATTERN)) {
+    const [text, writtenTitle, rawIndex] = match;
+    const start = match.index ?? 0;
+    // Markdown links ([text](url)) and footnote-style references are not citations
+    if (reply[start + text.length] === "(" || (!writtenTitle && reply[start - 1] === "^")) continue;
+
+    const index = Number(rawIndex);
+    const resource = resources[index - 1];
+    const citation: Citation = {
+      index,
+      title: writtenTitle?.trim() || resource?.title || `Resource ${index}`,
+      start,
+      end: start + text.length,
+      valid: true,
+    };
+
+    if (!resource) {
+      citation.valid = false;
+      citation.issue = "unknown-resource";
+    } else {
+      citation.resourceId = resource.id;
+      if (writtenTitle && !titlesMatch(writtenTitle, resource.title)) {
+        // The model may have named the right resource with the wrong number
+        const byTitle = resources.find((r) => titlesMatch(writtenTitle, r.title));
+        if (byTitle) {
+          citation.resourceId = byTitle.id;
+          citation.index = resources.indexOf(byTitle) + 1;
+        } else {
+          citation.resourceId = undefined;
+          citation.valid = false;
+          citation.issue = "title-mismatch";
+        }
+      }
+    }
+    citations.push(citation);
+  }
+  return citations;
+};
@@ -1,6 +1,20 @@
 import { MongoClient, Db, Collection } from "mongodb";
 import dotenv from "dotenv";
-import type { Resource, Patient } from "./types";
+import type {
+  Resource,
+  Patient,
+  Folder,
+  FileText,
+  Conversation,
+  ResourceChunk,
+  Goal,
+  TherapySession,
+  User,
+  AuthSession,
+  Team,
+  AuditEntry,
+  UsageDay,
+} from "./types";
 
 dotenv.config();
 
@@ -11,6 +25,17 @@ let bucket: import("mongodb").GridFSBucket | null = null;
 const DB_NAME = process.env.MONGODB_DB || "speechpath";
 const COLLECTION_NAME = "resources";
 const PATIENT_COLLECTION = "patients";
+const FOLDER_COLLECTION = "folders";
+const FILE_TEXT_COLLECTION = "file_texts";
+const CONVERSATION_COLLECTION = "conversations";
+const CHUNK_COLLECTION = "resource_chunks";
+const GOAL_COLLECTION = "goals";
+const SESSION_COLLECTION = "sessions";
+const USER_COLLECTION = "users";
+const AUTH_SESSION_COLLECTION = "auth_sessions";
+const TEAM_COLLECTION = "teams";
+const AUDIT_COLLECTION = "audit_log";
+const USAGE_COLLECTION = "ai_usage";
 
 export const getDb = async (): Promise<Db> => {
   if (db) return db;
@@ -35,6 +60,61 @@ export const getPatientsCollection = async (): Promise<Collection<Patient>> => {
   return database.collection<Patient>(PATIENT_COLLECTION);
 };
 
+export const getFoldersCollection = async (): Promise<Collection<Folder>> => {
+  const database = await getDb();
+  return database.collection<Folder>(FOLDER_COLLECTION);
+};
+
+export const getFileTextsCollection = async (): Promise<Collection<FileText>> => {
+  const database = await getDb();
+  return database.collection<FileText>(FILE_TEXT_COLLECTION);
+};
+
+export const getConversationsCollection = async (): Promise<Collection<Conversation>> => {
+  const database = await getDb();
+  return database.collection<Conversation>(CONVERSATION_COLLECTION);
+};
+
+export const getResourceChunksCollection = async (): Promise<Collection<ResourceChunk>> => {
+  const database = await getDb();
+  return database.collection<ResourceChunk>(CHUNK_COLLECTION);
+};
+
+export const getGoalsCollection = async (): Promise<Collection<Goal>> => {
+  const database = await getDb();
+  return database.collection<Goal>(GOAL_COLLECTION);
+};
+
+export const getSessionsCollection = async (): Promise<Collection<TherapySession>> => {
+  const database = await getDb();
+  return database.collection<TherapySession>(SESSION_COLLECTION);
+};
+
+export const getUsersCollection = async (): Promise<Collection<User>> => {
+  const database = await getDb();
+  return database.collection<User>(USER_COLLECTION);
+};
+
+export const getAuthSessionsCollection = async (): Promise<Collection<AuthSession>> => {
+  const database = await getDb();
+  return database.collection<AuthSession>(AUTH_SESSION_COLLECTION);
+};
+
+export const getTeamsCollection = async (): Promise<Collection<Team>> => {
+  const database = await getDb();
+  return database.collection<Team>(TEAM_COLLECTION);
+};
+
+export const getAuditLogCollection = async (): Promise<Collection<AuditEntry>> => {
+  const database = await getDb();
+  return database.collection<AuditEntry>(AUDIT_COLLECTION);
+};
+
+export const getUsageCollection = async (): Promise<Collection<UsageDay>> => {
+  const database = await getDb();
+  return database.collection<UsageDay>(USAGE_COLLECTION);
+};
+
 export const getUploadsBucket = async () => {
   if (bucket) return bucket;
   const database = await getDb();
@@ -0,0 +1,116 @@
+import { createHash } from "crypto";
+import { OpenAI } from "openai";
+import type { UsageListener } from "./usage";
+
+export type EmbeddingProvider = {
+  name: string;
+  model: string;
+  // onUsage receives the provider's token counts; the hashing embedder costs nothing and reports none
+  embed: (text: string, onUsage?: UsageListener) => Promise<number[] | undefined>;
+  // One vector (or undefined) per input, in order
+  embedBatch: (texts: string[], onUsage?: UsageListener) => Promise<(number[] | undefined)[]>;
+};
+
+const DEFAULT_OPENAI_MODEL = "text-embedding-3-small";
+const DEFAULT_HASH_DIMENSIONS = 384;
+const EMBEDDING_BATCH_SIZE = 64;
+
+// OpenAI, or any server speaking the OpenAI embeddings API (Ollama, LM Studio, vLLM...) when baseURL is set.
+const createOpenAIEmbeddingProvider = (options: {
+  name: string;
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+}): EmbeddingProvider => {
+  const client = options.apiKey ? new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL }) : null;
+  return {
+    name: options.name,
+    model: options.model,
+    embed: async (text, onUsage) => {
+      if (!client) return undefined;
+      const emb = await client.embeddings.create({ model: options.model, input: text });
+      if (emb.usage) onUsage?.({ embeddingTokens: emb.usage.prompt_tokens });
+      return emb.data?.[0]?.embedding;
+    },
+    embedBatch: async (texts, onUsage) => {
+      if (!client) return texts.map(() => undefined);
+      const vectors: (number[] | undefined)[] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const emb = await client.embeddings.create({ model: options.model, input: batch });
+        if (emb.usage) onUsage?.({ embeddingTokens: emb.usage.prompt_tokens });
+        const byIndex = new Map(emb.data.map((d) => [d.index, d.embedding]));
+        batch.forEach((_text, idx) => vectors.push(byIndex.get(idx)));
+      }
+      return vectors;
+    },
+  };
+};
+
+const hashToken = (token: string) => createHash("md5").update(token).digest();
+
+// Deterministic, dependency-free embedder: hashes unigrams and bigrams into a fixed number of signed buckets,
+// then L2-normalises. Quality is lexical rather than semantic, but it needs no network and always returns the
+// same vector for the same text, which makes it suitable for tests and air-gapped installs.
+const hashEmbed = (text: string, dimensions: number): number[] | undefined => {
+  const tokens = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  if (tokens.length === 0) return undefined;
+
+  const features = [...tokens, ...tokens.slice(1).map((tok, idx) => `${tokens[idx]} ${tok}`)];
+  const counts = new Map<string, number>();
+  features.forEach((f) => counts.set(f, (counts.get(f) || 0) + 1));
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, feature) => {
+    const digest = hashToken(feature);
+    const bucket = digest.readUInt32LE(0) % dimensions;
+    const sign = digest[4] & 1 ? 1 : -1;
+    vector[bucket] += sign * (1 + Math.log(count));
+  });
+
+  const norm = Math.sqrt(vector.reduce((acc, v) => acc + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+};
+
+const createHashingEmbeddingProvider = (dimensions: number): EmbeddingProvider => ({
+  name: "hash",
+  model: `hash-${dimensions}`,
+  embed: async (text) => hashEmbed(text, dimensions),
+  embedBatch: async (texts) => texts.map((text) => hashEmbed(text, dimensions)),
+});
+
+// EMBEDDING_PROVIDER: openai (default) | local | hash
+export const createEmbeddingProvider = (): EmbeddingProvider => {
+  const provider = (process.env.EMBEDDING_PROVIDER || "openai").toLowerCase();
+
+  if (provider === "hash" || provider === "offline") {
+    const dimensions = Number(process.env.EMBEDDING_DIMENSIONS) || DEFAULT_HASH_DIMENSIONS;
+    return createHashingEmbeddingProvider(dimensions);
+  }
+
+  if (provider === "local") {
+    const baseURL = process.env.EMBEDDING_BASE_URL;
+    if (!baseURL) {
+      console.error("EMBEDDING_PROVIDER=local needs EMBEDDING_BASE_URL; embeddings are disabled");
+    }
+    return createOpenAIEmbeddingProvider({
+      name: "local",
+      // Local servers usually ignore the key, but the client requires one
+      apiKey: baseURL ? process.env.EMBEDDING_API_KEY || "local" : undefined,
+      baseURL,
+      model: process.env.EMBEDDING_MODEL || "nomic-embed-text",
+    });
+  }
+
+  if (provider !== "openai") {
+    console.error(`Unknown EMBEDDING_PROVIDER "${provider}", using openai`);
+  }
+  return createOpenAIEmbeddingProvider({
+    name: "openai",
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.EMBEDDING_MODEL || DEFAULT_OPENAI_MODEL,
+  });
+};
@@ -0,0 +1,102 @@
+import crypto from "crypto";
+
+// Application-level encryption for sensitive document fields (patient names and notes).
+//
+// FIELD_ENCRYPTION_KEYS lists "<keyId>:<base64 32-byte key>" pairs, comma separated. The first key encrypts; the
+// others only decrypt, which is how keys are rotated: put the new key first, keep the old ones until the
+// re-encrypt route reports nothing left, then drop them. Values are stored as enc:v1:<keyId>:<iv>:<tag>:<data>
+// (AES-256-GCM, with the field name as associated data so a value cannot be copied into another field).
+// Values without the prefix are plaintext from before encryption was enabled and are returned as-is.
+//
+// FIELD_BLIND_INDEX_KEY (base64, 32+ bytes) keys the HMAC blind index used to find patients by name without
+// decrypting them. It is separate from the encryption keys so rotating those does not invalidate the index.
+
+const PREFIX = "enc:v1:";
+const KEY_BYTES = 32;
+
+export type FieldCipher = {
+  enabled: boolean;
+  currentKeyId?: string;
+  // Short fingerprint of the blind-index key, stored with each index so a key change can be detected
+  blindIndexId: string;
+  encrypt: (value: string, field: string) => string;
+  decrypt: (value: string, field: string) => string;
+  // True when the value is plaintext or was encrypted with a key other than the current one
+  needsRotation: (value: string) => boolean;
+  // The key id an encrypted value names, or undefined for plaintext
+  keyIdOf: (value: string) => string | undefined;
+  // Blind-index terms for a name: one HMAC per normalised word
+  indexTerms: (text: string) => string[];
+};
+
+const parseKeys = (raw: string) => {
+  const keys = new Map<string, Buffer>();
+  for (const pair of raw.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const sep = pair.indexOf(":");
+    const id = sep > 0 ? pair.slice(0, sep) : "";
+    const key = Buffer.from(pair.slice(sep + 1), "base64");
+    if (!/^[\w-]+$/.test(id) || key.length !== KEY_BYTES) {
+      throw new Error(`FIELD_ENCRYPTION_KEYS entries must be <keyId>:<base64 ${KEY_BYTES}-byte key>`);
+    }
+    if (keys.has(id)) throw new Error(`FIELD_ENCRYPTION_KEYS repeats key id "${id}"`);
+    keys.set(id, key);
+  }
+  return keys;
+};
+
+// Lowercased words with accents removed, so "José  Núñez" and "jose nunez" index the same
+const nameTerms = (text: string) => [
+  ...new Set(
+    text
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean),
+  ),
+];
+
+// Misconfigured keys throw at startup rather than silently storing plaintext
+export const createFieldCipher = (): FieldCipher => {
+  const keys = parseKeys(process.env.FIELD_ENCRYPTION_KEYS || "");
+  const currentKeyId = keys.keys().next().value as string | undefined;
+
+  const blindKey = process.env.FIELD_BLIND_INDEX_KEY ? Buffer.from(process.env.FIELD_BLIND_INDEX_KEY, "base64") : null;
+  if (blindKey && blindKey.length < KEY_BYTES) {
+    throw new Error(`FIELD_BLIND_INDEX_KEY must be at least ${KEY_BYTES} bytes (base64)`);
+  }
+  if (currentKeyId && !blindKey) {
+    throw new Error("FIELD_ENCRYPTION_KEYS needs FIELD_BLIND_INDEX_KEY so patients can still be found by name");
+  }
+  // Without a key the index is a plain hash, which is no weaker than the plaintext names stored alongside it
+  const indexHash = (term: string) =>
+    (blindKey ? crypto.createHmac("sha256", blindKey) : crypto.createHash("sha256")).update(term).digest("base64url");
+
+  return {
+    enabled: !!currentKeyId,
+    currentKeyId,
+    blindIndexId: blindKey ? crypto.createHash("sha256").update(blindKey).digest("hex").slice(0, 12) : "none",
+    encrypt: (value, field) => {
+      if (!currentKeyId) return value;
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv("aes-256-gcm", keys.get(currentKeyId) as Buffer, iv);
+      cipher.setAAD(Buffer.from(field));
+      const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+      const parts = [iv, cipher.getAuthTag(), data].map((b) => b.toString("base64"));
+      return `${PREFIX}${currentKeyId}:${parts.join(":")}`;
+    },
+    decrypt: (value, field) => {
+      if (!value.startsWith(PREFIX)) return value;
+      const [keyId, iv, tag, data] = value.slice(PREFIX.length).split(":");
+      const key = keys.get(keyId);
+      if (!key) throw new Error(`No key "${keyId}" in FIELD_ENCRYPTION_KEYS to decrypt ${field}`);
+      const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64"));
+      decipher.setAAD(Buffer.from(field));
+      decipher.setAuthTag(Buffer.from(tag, "base64"));
+      return Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf8");
+    },
+    needsRotation: (value) => !!currentKeyId && !value.startsWith(`${PREFIX}${currentKeyId}:`),
+    keyIdOf: (value) => (value.startsWith(PREFIX) ? value.slice(PREFIX.length).split(":")[0] : undefined),
+    indexTerms: (text) => nameTerms(text).map(indexHash),
+  };
+};
@@ -1,31 +1,168 @@
 import cors from "cors";
+import crypto from "crypto";
 import dotenv from "dotenv";
 import express, { Request, Response } from "express";
 import multer from "multer";
 import path from "path";
-import { OpenAI } from "openai";
 import { ObjectId } from "mongodb";
 import { PassThrough } from "stream";
 import pdfParse from "pdf-parse";
 import mammoth from "mammoth";
-import { getResourcesCollection, getUploadsBucket, getPatientsCollection } from "./db";
-import { ChatMessage, Resource, Patient } from "./types";
+import {
+  getResourcesCollection,
+  getUploadsBucket,
+  getPatientsCollection,
+  getFileTextsCollection,
+  getFoldersCollection,
+  getConversationsCollection,
+  getResourceChunksCollection,
+  getGoalsCollection,
+  getSessionsCollection,
+  getUsersCollection,
+  getAuthSessionsCollection,
+  getTeamsCollection,
+  getAuditLogCollection,
+} from "./db";
+import {
+  removeLocalChunkVectors,
+  removeLocalVector,
+  replaceLocalChunkVectors,
+  searchLocalChunkVectors,
+  searchLocalVectors,
+  setLocalVectorTeam,
+  upsertLocalVector,
+  VectorAccess,
+} from "./vectorIndex";
+import { chunkText, PAGE_BREAK } from "./chunks";
+import { createEmbeddingProvider } from "./embeddings";
+import { createLlmProvider } from "./llm";
+import { extractCitations } from "./citations";
+import {
+  createSessionToken,
+  getDecoyHash,
+  hashPassword,
+  hashSessionToken,
+  MIN_PASSWORD_LENGTH,
+  verifyPassword,
+} from "./auth";
+import { buildSessionPlanMessages, parseSessionPlan, planResourceIds } from "./sessionPlan";
+import { DEFAULT_ROLE, hasPermission, isRole, Permission, permissionsFor, ROLES } from "./permissions";
+import { createFieldCipher } from "./fieldCrypto";
+import { reencryptBatch } from "./patientReencryption";
+import { createRedactor, Redactor } from "./redaction";
+import { AiMeter, createAiMeter, ensureUsageIndexes, getMonthlyUsage, monthKey, recordUsage, totalTokens } from "./usage";
+import { createRateLimiter, RateLimiter } from "./rateLimit";
+import { createLoginThrottle } from "./loginThrottle";
+import { ensureAuditIndexes, onResponseDone, parseAuditFilter, recordAudit, AUDIT_CSV_COLUMNS, toAuditCsvRow } from "./audit";
+import {
+  ChatMessage,
+  Resource,
+  Patient,
+  CommunicationModality,
+  CaseloadStatus,
+  Goal,
+  GoalDomain,
+  GoalStatus,
+  GoalTrials,
+  GoalProgress,
+  TherapySession,
+  SessionPlan,
+  Folder,
+  Conversation,
+  ConversationMessage,
+  Passage,
+  ResourceChunk,
+  SearchHighlight,
+  SearchResult,
+  RetrieverName,
+  RetrievalDebug,
+  Team,
+  AccessScope,
+  User,
+  UserRole,
+  AuditAction,
+  AuditEntry,
+  AuditTargetType,
+} from "./types";
 
 dotenv.config();
 
 const app = express();
-app.use(cors());
+// Behind a reverse proxy, set TRUST_PROXY (e.g. 1 for one hop) so req.ip is the client rather than the proxy;
+// sign-in throttling per IP depends on it
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+app.use(cors({ exposedHeaders: ["X-Request-Id", "Retry-After"] }));
 app.use(express.json({ limit: "5mb" }));
-const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 15 * 1024 * 1024 } });
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+// Every request gets an id, echoed as X-Request-Id, so audit entries can be matched to proxy and client logs.
+// A well-formed id from an upstream proxy is kept.
+app.use((req: Request & { requestId?: string }, res: Response, next: () => void) => {
+  const incoming = req.get("x-request-id");
+  req.requestId = incoming && /^[\w.-]{1,100}$/.test(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader("X-Request-Id", req.requestId);
+  next();
 });
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 15 * 1024 * 1024 } });
+
+const llm = createLlmProvider();
+const embeddingProvider = createEmbeddingProvider();
+const fieldCipher = createFieldCipher();
 
 const PORT = process.env.PORT || 5000;
 
-const loadUsers = () => {
-  // Preferred: BASIC_USERS='[{"username":"name","password":"pass","email":"optional"}]'
+const envNumber = (name: string, fallback: number) => {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+// Reciprocal rank fusion: each retriever adds weight / (k + rank) for every resource it returns.
+const RETRIEVAL_WEIGHTS: Record<RetrieverName, number> & { k: number } = {
+  vector: envNumber("RETRIEVAL_VECTOR_WEIGHT", 1),
+  lexical: envNumber("RETRIEVAL_LEXICAL_WEIGHT", 1),
+  k: envNumber("RETRIEVAL_RRF_K", 60),
+};
+
+// Added to the fused score of resources already linked to the patient a chat is about; defaults to one rank-1 hit.
+const PATIENT_LINK_BOOST = envNumber("RETRIEVAL_PATIENT_BOOST", 1 / (RETRIEVAL_WEIGHTS.k + 1));
+
+// Monthly token budget per user (prompt, completion and embedding tokens together); 0 means unlimited.
+// An account's monthlyTokenBudget overrides it.
+const AI_MONTHLY_TOKEN_BUDGET = envNumber("AI_MONTHLY_TOKEN_BUDGET", 0);
+
+// Requests per user per minute: every API route, and the stricter limit on routes that call the LLM
+const apiRateLimiter = createRateLimiter({ limit: envNumber("RATE_LIMIT_PER_MINUTE", 300), windowMs: 60_000 });
+const aiRateLimiter = createRateLimiter({ limit: envNumber("AI_RATE_LIMIT_PER_MINUTE", 20), windowMs: 60_000 });
+
+// Failed sign-ins are tracked per username and per client IP. The IP allows more, since one office may share an
+// address; a lockout on either blocks the attempt.
+const LOGIN_LOCKOUT_MS = envNumber("LOGIN_LOCKOUT_MINUTES", 15) * 60_000;
+const loginThrottleOptions = {
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  lockoutMs: LOGIN_LOCKOUT_MS,
+  resetMs: Math.max(LOGIN_LOCKOUT_MS, 60 * 60_000),
+};
+const usernameThrottle = createLoginThrottle({
+  ...loginThrottleOptions,
+  freeAttempts: 3,
+  lockoutAttempts: envNumber("LOGIN_LOCKOUT_ATTEMPTS", 10),
+});
+const ipThrottle = createLoginThrottle({
+  ...loginThrottleOptions,
+  freeAttempts: 10,
+  lockoutAttempts: envNumber("LOGIN_IP_LOCKOUT_ATTEMPTS", 50),
+});
+
+// Accounts from BASIC_USERS or BASIC_USER_* / BASIC_PASS_* pairs are seeded into the users collection at startup.
+// Seeding only adds usernames that do not exist yet, so passwords changed in the app are never reset from env.
+// A seed's role applies to new accounts and to existing ones that have no role yet.
+const loadSeedUsers = (): { username: string; password: string; email?: string; role?: UserRole }[] => {
+  // Preferred: BASIC_USERS='[{"username":"name","password":"pass","email":"optional","role":"assistant"}]'
   if (process.env.BASIC_USERS) {
     try {
       const parsed = JSON.parse(process.env.BASIC_USERS);
@@ -35,6 +172,7 @@ const loadUsers = () => {
             username: u.username,
             password: u.password,
             email: u.email || "",
+            role: isRole(u.role) ? u.role : undefined,
           }))
           .filter((u) => u.username && u.password);
         if (cleaned.length > 0) return cleaned;
@@ -45,31 +183,62 @@ const loadUsers = () => {
   }
 
   // Fallback: any BASIC_USER_* / BASIC_PASS_* pairs in env
-  const envUsers: { username: string; password: string; email?: string }[] = [];
+  const envUsers: { username: string; password: string; email?: string; role?: UserRole }[] = [];
   Object.entries(process.env).forEach(([key, value]) => {
     const match = key.match(/^BASIC_USER_(.+)$/);
     if (match && value) {
       const suffix = match[1];
       const pass = process.env[`BASIC_PASS_${suffix}`];
       if (pass) {
+        const role = process.env[`BASIC_ROLE_${suffix}`];
         envUsers.push({
           username: value,
           password: pass,
           email: process.env[`BASIC_EMAIL_${suffix}`] || "",
+          role: isRole(role) ? role : undefined,
         });
       }
     }
   });
-  if (envUsers.length > 0) return envUsers;
+  return envUsers;
+};
 
-  // Defaults
-  return [
-    { username: process.env.BASIC_USER_1 || "therapist", password: process.env.BASIC_PASS_1 || "speech123", email: process.env.BASIC_EMAIL_1 || "therapist@example.com" },
-    { username: process.env.BASIC_USER_2 || "assistant", password: process.env.BASIC_PASS_2 || "helper123", email: process.env.BASIC_EMAIL_2 || "assistant@example.com" },
-  ];
+const seedUsers = async () => {
+  const col = await getUsersCollection();
+  await col.createIndex({ username: 1 }, { unique: true });
+  const sessions = await getAuthSessionsCollection();
+  await sessions.createIndex({ tokenHash: 1 }, { unique: true });
+  await sessions.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  let added = 0;
+  for (const seed of loadSeedUsers()) {
+    const result = await col.updateOne(
+      { username: seed.username },
+      {
+        $setOnInsert: {
+          username: seed.username,
+          ...(seed.email ? { email: seed.email } : {}),
+          role: seed.role ?? DEFAULT_ROLE,
+          passwordHash: await hashPassword(seed.password),
+          createdAt: new Date().toISOString(),
+        },
+      },
+      { upsert: true },
+    );
+    if (result.upsertedCount > 0) added += 1;
+    else if (seed.role) {
+      await col.updateOne({ username: seed.username, role: { $exists: false } }, { $set: { role: seed.role } });
+    }
+  }
+  if (added > 0) console.log(`Seeded ${added} user account(s) from env`);
+  if ((await col.estimatedDocumentCount()) === 0) {
+    console.warn("No user accounts exist. Set BASIC_USERS (or BASIC_USER_1/BASIC_PASS_1) and restart to create one.");
+  } else if ((await col.countDocuments({ role: "admin" })) === 0) {
+    console.warn('No admin accounts exist. Give a seeded account "role": "admin" to run maintenance routes.');
+  }
 };
 
-const USERS = loadUsers();
+const SESSION_TTL_HOURS = envNumber("SESSION_TTL_HOURS", 12);
 
 const tokenize = (input: string): string[] =>
   input
@@ -85,24 +254,158 @@ const stem = (token: string): string => {
   return token;
 };
 
-type AuthedRequest = Request & { user?: { sub: string; email?: string; name?: string } };
+type AuthedRequest = Request & {
+  user?: { sub: string; email?: string; name?: string; role: UserRole; monthlyTokenBudget?: number };
+  sessionTokenHash?: string;
+  accessScope?: AccessScope;
+  requestId?: string;
+  aiMeter?: AiMeter;
+};
 
-const verifyAuth = (req: AuthedRequest, res: Response, next: () => void) => {
+// Bearer session tokens from /api/auth/login; owner ids stay the username, as with the earlier Basic auth
+const verifyAuth = async (req: AuthedRequest, res: Response, next: () => void) => {
   const header = req.headers.authorization;
-  if (!header || !header.startsWith("Basic ")) {
+  if (!header || !header.startsWith("Bearer ")) {
     return res.status(401).json({ error: "Missing auth" });
   }
-  const token = header.replace("Basic ", "").trim();
-  const decoded = Buffer.from(token, "base64").toString("utf8");
-  const [username, password] = decoded.split(":");
-  const user = USERS.find((u) => u.username === username && u.password === password);
-  if (!user) {
-    return res.status(401).json({ error: "Invalid credentials" });
+  try {
+    const tokenHash = hashSessionToken(header.replace("Bearer ", "").trim());
+    const sessions = await getAuthSessionsCollection();
+    // The TTL index removes expired sessions eventually; the expiry check makes them invalid immediately
+    const session = await sessions.findOne({ tokenHash, expiresAt: { $gt: new Date() } });
+    if (!session) {
+      return res.status(401).json({ error: "Session expired or invalid" });
+    }
+    const users = await getUsersCollection();
+    const user = await users.findOne({ username: session.username });
+    if (!user) {
+      return res.status(401).json({ error: "Session expired or invalid" });
+    }
+    req.user = {
+      sub: user.username,
+      email: user.email,
+      name: user.username,
+      role: user.role ?? DEFAULT_ROLE,
+      monthlyTokenBudget: user.monthlyTokenBudget,
+    };
+    req.sessionTokenHash = tokenHash;
+    next();
+  } catch (err) {
+    console.error("Failed to verify session", err);
+    res.status(500).json({ error: "Failed to verify session" });
+  }
+};
+
+// Runs after verifyAuth; the role is read from the account on every request, so role changes apply immediately
+const requirePermission = (permission: Permission) => (req: AuthedRequest, res: Response, next: () => void) => {
+  if (!hasPermission(req.user?.role, permission)) {
+    return res.status(403).json({ error: "Your role does not allow this action" });
+  }
+  next();
+};
+
+// Runs after verifyAuth; answers 429 with Retry-After once the user has used up the limiter's window
+const rateLimit = (limiter: RateLimiter) => (req: AuthedRequest, res: Response, next: () => void) => {
+  const result = limiter.take(req.user?.sub as string);
+  if (!result.allowed) {
+    res.setHeader("Retry-After", String(result.retryAfterSeconds));
+    return res
+      .status(429)
+      .json({ error: "Too many requests. Please wait a moment and try again.", retryAfterSeconds: result.retryAfterSeconds });
   }
-  req.user = { sub: user.username, email: user.email, name: user.username };
   next();
 };
 
+const monthlyBudgetFor = (req: AuthedRequest) => req.user?.monthlyTokenBudget ?? AI_MONTHLY_TOKEN_BUDGET;
+
+// For routes that may call the LLM or embedding provider: counts the request, and sets req.aiMeter, which charges
+// provider usage to the user and is lexical-only once their monthly budget is spent
+const meterAi = async (req: AuthedRequest, res: Response, next: () => void) => {
+  const userId = req.user?.sub as string;
+  try {
+    const budget = monthlyBudgetFor(req);
+    const used = budget > 0 ? totalTokens(await getMonthlyUsage(userId)) : 0;
+    req.aiMeter = createAiMeter(userId, budget > 0 && used >= budget);
+    await recordUsage(userId, {}, 1);
+    next();
+  } catch (err) {
+    console.error("Failed to check AI usage", err);
+    res.status(500).json({ error: "Failed to check AI usage" });
+  }
+};
+
+const AI_BUDGET_EXCEEDED = "Your monthly AI budget has been used. It resets at the start of next month.";
+
+// Shown instead of a generated reply while the user's budget is spent
+const AI_BUDGET_REPLY =
+  "Your monthly AI budget has been used, so this answer lists matching resources without a written reply. " +
+  "Full answers return next month or when an admin raises your budget.";
+
+const canSeePatientNotes = (req: AuthedRequest) => hasPermission(req.user?.role, "patients:notes");
+
+// Writes an audit entry once the response is over, so denied and failed attempts are recorded with their status,
+// and responses the client abandoned part way (a stopped chat stream, a cancelled download) are marked `aborted`.
+// Place it before requirePermission. The target id comes from the route param, or from res.locals.auditTargetId for
+// creates. Other route params, `details` and res.locals.auditDetails go into the entry's details; keep them to ids
+// and field names so the log holds no clinical text. An `optional` target without a param writes nothing unless
+// the handler sets res.locals.auditTargetId, for routes that only sometimes touch patient data.
+const audit =
+  (
+    action: AuditAction,
+    target?: { type: AuditTargetType; param?: string; optional?: boolean },
+    details?: (req: AuthedRequest) => Record<string, unknown> | undefined,
+  ) =>
+  (req: AuthedRequest, res: Response, next: () => void) => {
+    onResponseDone(res, (aborted) => {
+      const targetId = res.locals.auditTargetId ?? (target?.param ? req.params[target.param] : undefined);
+      if (target?.optional && !targetId) return;
+      const params: Record<string, unknown> = { ...req.params };
+      if (target?.param) delete params[target.param];
+      const extra = { ...params, ...details?.(req), ...res.locals.auditDetails, ...(aborted ? { aborted: true } : {}) };
+      recordAudit({
+        at: new Date(),
+        requestId: req.requestId as string,
+        actor: req.user?.sub,
+        role: req.user?.role,
+        action,
+        ...(target ? { targetType: target.type } : {}),
+        ...(targetId ? { targetId } : {}),
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        status: res.statusCode,
+        ip: req.ip,
+        ...(Object.keys(extra).length > 0 ? { details: extra } : {}),
+      }).catch((err) => console.error("Failed to write audit entry", err));
+    });
+    next();
+  };
+
+const PATIENT_TARGET = { type: "patient", param: "id" } as const;
+
+// Chats and conversations read patient notes into the prompt only when a patient is attached
+const CHAT_PATIENT_TARGET = { type: "patient", optional: true } as const;
+
+// Team membership is looked up once per request, on first use
+const getAccessScope = async (req: AuthedRequest): Promise<AccessScope> => {
+  if (!req.accessScope) {
+    const col = await getTeamsCollection();
+    const teams = await col.find({ "members.username": req.user?.sub }).project({ _id: 1 }).toArray();
+    req.accessScope = { ownerId: req.user?.sub, teamIds: teams.map((t) => t._id.toString()) };
+  }
+  return req.accessScope;
+};
+
+// Resources readable in a scope. Also used as the $vectorSearch pre-filter, so ownerId and teamId must both be
+// filter fields in the Atlas indexes.
+const scopeFilter = (scope: AccessScope): Record<string, unknown> =>
+  scope.teamIds.length > 0
+    ? { $or: [{ ownerId: scope.ownerId }, { teamId: { $in: scope.teamIds } }] }
+    : { ownerId: scope.ownerId };
+
+// Patient and goal links belong to the owner's caseload, so teammates see shared resources without them
+const forViewer = (resource: Resource, viewerId?: string): Resource =>
+  resource.ownerId === viewerId ? resource : { ...resource, patientIds: [], goalIds: [] };
+
 const derivePhonemeTags = (text: string): string[] => {
   // Only add phoneme tags if the title explicitly mentions a sound like "/s/" or "letter s"
   const tags: string[] = [];
@@ -129,26 +432,139 @@ const toResource = (doc: any): Resource => ({
   tags: doc.tags || [],
   ageRange: doc.ageRange,
   type: doc.type,
+  folder: doc.folder,
   uploadedBy: doc.uploadedBy,
   createdAt: doc.createdAt,
+  lastUsedAt: doc.lastUsedAt,
   extractedText: doc.extractedText,
   insight: doc.insight,
   ownerId: doc.ownerId,
   ownerEmail: doc.ownerEmail,
   patientIds: doc.patientIds || [],
+  teamId: doc.teamId,
+  goalIds: doc.goalIds || [],
 });
 
+// Parses a calendar date (YYYY-MM-DD) as UTC midnight; rejects other formats and rolled-over dates like 2024-02-30.
+const parseIsoDate = (value: unknown): Date | undefined => {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value) ? date : undefined;
+};
+
+const ageFromDateOfBirth = (dateOfBirth?: string): number | undefined => {
+  if (!dateOfBirth) return undefined;
+  const dob = new Date(`${dateOfBirth}T00:00:00Z`);
+  if (Number.isNaN(dob.getTime())) return undefined;
+  const now = new Date();
+  let age = now.getUTCFullYear() - dob.getUTCFullYear();
+  const beforeBirthday =
+    now.getUTCMonth() < dob.getUTCMonth() ||
+    (now.getUTCMonth() === dob.getUTCMonth() && now.getUTCDate() < dob.getUTCDate());
+  if (beforeBirthday) age -= 1;
+  return age;
+};
+
+// A value encrypted with a key no longer in FIELD_ENCRYPTION_KEYS, or altered, cannot be decrypted. That record is
+// returned as unreadable rather than failing every list and chat that includes it.
+const decryptPatientFields = (doc: any): Pick<Patient, "name" | "notes" | "unreadable"> => {
+  try {
+    return {
+      name: doc.name ? fieldCipher.decrypt(doc.name, "name") : doc.name,
+      notes: doc.notes ? fieldCipher.decrypt(doc.notes, "notes") : doc.notes,
+    };
+  } catch (err) {
+    const keyIds = [doc.name, doc.notes]
+      .map((value) => (typeof value === "string" ? fieldCipher.keyIdOf(value) : undefined))
+      .filter(Boolean);
+    console.error(
+      `Cannot decrypt patient ${doc._id} (key ${keyIds.join(", ") || "none"}):`,
+      err instanceof Error ? err.message : err,
+    );
+    return { name: "", notes: undefined, unreadable: true };
+  }
+};
+
+// Names and notes are decrypted here; the blind index stays in the database
 const toPatient = (doc: any): Patient => ({
   id: doc._id?.toString(),
   _id: doc._id?.toString(),
-  name: doc.name,
+  ...decryptPatientFields(doc),
+  dateOfBirth: doc.dateOfBirth,
+  age: ageFromDateOfBirth(doc.dateOfBirth),
+  diagnoses: doc.diagnoses || [],
+  targetSounds: doc.targetSounds || [],
+  communicationModality: doc.communicationModality,
+  status: doc.status || "active",
+  ownerId: doc.ownerId,
+  ownerEmail: doc.ownerEmail,
+  createdAt: doc.createdAt,
+  updatedAt: doc.updatedAt,
+});
+
+const toGoal = (doc: any): Goal => ({
+  id: doc._id?.toString(),
+  _id: doc._id?.toString(),
+  patientId: doc.patientId,
+  domain: doc.domain,
+  target: doc.target,
+  criterion: doc.criterion,
+  status: doc.status || "active",
+  startDate: doc.startDate,
+  reviewDate: doc.reviewDate,
+  ownerId: doc.ownerId,
+  ownerEmail: doc.ownerEmail,
+  createdAt: doc.createdAt,
+  updatedAt: doc.updatedAt,
+});
+
+const toSession = (doc: any): TherapySession => ({
+  id: doc._id?.toString(),
+  _id: doc._id?.toString(),
+  patientId: doc.patientId,
+  date: doc.date,
+  durationMinutes: doc.durationMinutes,
   notes: doc.notes,
+  resources: doc.resources || [],
+  trials: doc.trials || [],
+  plan: doc.plan,
+  ownerId: doc.ownerId,
+  ownerEmail: doc.ownerEmail,
+  createdAt: doc.createdAt,
+});
+
+const toTeam = (doc: any): Team => ({
+  id: doc._id?.toString(),
+  _id: doc._id?.toString(),
+  name: doc.name,
+  members: doc.members || [],
+  createdBy: doc.createdBy,
+  createdAt: doc.createdAt,
+  updatedAt: doc.updatedAt,
+});
+
+const toFolder = (doc: any): Folder => ({
+  id: doc._id?.toString(),
+  _id: doc._id?.toString(),
+  name: doc.name,
+  ownerId: doc.ownerId,
+  ownerEmail: doc.ownerEmail,
+  createdAt: doc.createdAt,
+});
+
+const toConversation = (doc: any): Conversation => ({
+  id: doc._id?.toString(),
+  _id: doc._id?.toString(),
+  title: doc.title,
+  patientId: doc.patientId,
+  messages: doc.messages || [],
   ownerId: doc.ownerId,
   ownerEmail: doc.ownerEmail,
   createdAt: doc.createdAt,
+  updatedAt: doc.updatedAt,
 });
 
-const scoreResources = (query: string, list: Resource[]): Resource[] => {
+const rankResources = (query: string, list: Resource[]): { resource: Resource; score: number }[] => {
   const qTokens = tokenize(query);
   if (qTokens.length === 0) return [];
 
@@ -174,7 +590,47 @@ const scoreResources = (query: string, list: Resource[]): Resource[] => {
     .filter((item) => item.score > 0)
     .sort((a, b) => b.score - a.score);
 
-  return scored.map((item) => item.resource).slice(0, 5);
+  return scored;
+};
+
+const scoreResources = (query: string, list: Resource[]): Resource[] =>
+  rankResources(query, list)
+    .map((item) => item.resource)
+    .slice(0, 5);
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const HIGHLIGHT_CONTEXT = 80;
+
+// Short snippets showing where query terms hit, per field, for the search results UI.
+const buildHighlights = (query: string, resource: Resource): SearchHighlight[] => {
+  const qTokens = Array.from(new Set(tokenize(query)));
+  if (qTokens.length === 0) return [];
+
+  const fields: [SearchHighlight["field"], string][] = [
+    ["title", resource.title || ""],
+    ["description", resource.description || ""],
+    ["tags", (resource.tags || []).join(", ")],
+    ["text", resource.extractedText || ""],
+  ];
+
+  return fields.reduce<SearchHighlight[]>((acc, [field, value]) => {
+    if (!value) return acc;
+    const positions = qTokens
+      .map((tok) => ({ tok, index: value.search(new RegExp(`\\b${escapeRegex(tok)}`, "i")) }))
+      .filter((hit) => hit.index >= 0);
+    if (positions.length === 0) return acc;
+
+    let snippet = value;
+    if (field === "description" || field === "text") {
+      const first = Math.min(...positions.map((hit) => hit.index));
+      const start = Math.max(0, first - HIGHLIGHT_CONTEXT);
+      const end = Math.min(value.length, first + HIGHLIGHT_CONTEXT * 2);
+      snippet = `${start > 0 ? "…" : ""}${value.slice(start, end).replace(/\s+/g, " ").trim()}${end < value.length ? "…" : ""}`;
+    }
+    acc.push({ field, snippet, terms: positions.map((hit) => hit.tok) });
+    return acc;
+  }, []);
 };
 
 const safeJsonParse = <T>(raw: string): T | null => {
@@ -185,11 +641,232 @@ const safeJsonParse = <T>(raw: string): T | null => {
   }
 };
 
-const pdfParser = pdfParse as unknown as (data: Buffer) => Promise<{ text?: string }>;
+const LEXICAL_BATCH_SIZE = 500;
+
+// Scores every matching resource in batches, carrying the best matches forward so memory stays bounded.
+const lexicalSearch = async (
+  query: string,
+  filter: Record<string, unknown>,
+  limit = 5,
+): Promise<{ resource: Resource; score: number }[]> => {
+  const col = await getResourcesCollection();
+  const cursor = col.find(filter).project({ embedding: 0 }).batchSize(LEXICAL_BATCH_SIZE);
+  let best: Resource[] = [];
+  let batch: Resource[] = [];
+  for await (const doc of cursor) {
+    batch.push(toResource(doc));
+    if (batch.length >= LEXICAL_BATCH_SIZE) {
+      best = rankResources(query, [...best, ...batch])
+        .slice(0, limit)
+        .map((item) => item.resource);
+      batch = [];
+    }
+  }
+  return rankResources(query, [...best, ...batch]).slice(0, limit);
+};
+
+const VECTOR_INDEX = "resource_embedding_index";
+
+// auto: try Atlas $vectorSearch and switch to the in-process index if the stage is rejected; atlas/local force one path.
+const VECTOR_SEARCH_MODE = (process.env.VECTOR_SEARCH_MODE || "auto").toLowerCase();
+let atlasVectorSearchAvailable = VECTOR_SEARCH_MODE !== "local";
+
+const isVectorStageUnavailable = (err: unknown) => {
+  const code = (err as { code?: number })?.code;
+  const message = err instanceof Error ? err.message : String(err);
+  return code === 40324 || code === 31082 || /\$vectorSearch|vector search/i.test(message);
+};
+
+// Atlas $vectorSearch only pre-filters on indexed fields (ownerId, teamId); anything else in `match` is applied afterwards.
+const atlasVectorSearch = async (
+  queryVector: number[],
+  scope: AccessScope,
+  options: { limit: number; numCandidates: number; match?: Record<string, unknown> },
+): Promise<{ resource: Resource; score: number }[]> => {
+  const col = await getResourcesCollection();
+  const postFilter = options.match ? [{ $match: options.match }] : [];
+  const docs = await col
+    .aggregate([
+      {
+        $vectorSearch: {
+          index: VECTOR_INDEX,
+          path: "embedding",
+          queryVector,
+          numCandidates: options.numCandidates,
+          limit: postFilter.length > 0 ? options.numCandidates : options.limit,
+          filter: scopeFilter(scope),
+        },
+      },
+      { $addFields: { vectorScore: { $meta: "vectorSearchScore" } } },
+      ...postFilter,
+      { $limit: options.limit },
+      { $project: { embedding: 0 } },
+    ])
+    .toArray();
+  return docs.map((doc: any) => ({ resource: toResource(doc), score: doc.vectorScore ?? 0 }));
+};
+
+const localVectorSearch = async (
+  queryVector: number[],
+  scope: AccessScope,
+  options: { limit: number; numCandidates: number; match?: Record<string, unknown> },
+): Promise<{ resource: Resource; score: number }[]> => {
+  const candidates = await searchLocalVectors(queryVector, scope, options.match ? options.numCandidates : options.limit);
+  if (candidates.length === 0) return [];
+  const col = await getResourcesCollection();
+  const docs = await col
+    .find({
+      $and: [scopeFilter(scope), options.match ?? {}, { _id: { $in: candidates.map((c) => new ObjectId(c.id)) as any[] } }],
+    })
+    .project({ embedding: 0 })
+    .toArray();
+  const byId = new Map(docs.map((doc) => [doc._id.toString(), doc]));
+  return candidates
+    .filter((c) => byId.has(c.id))
+    .slice(0, options.limit)
+    .map((c) => ({ resource: toResource(byId.get(c.id)), score: c.score }));
+};
+
+const withVectorFallback = async <T>(atlas: () => Promise<T>, local: () => Promise<T>): Promise<T> => {
+  if (atlasVectorSearchAvailable) {
+    try {
+      return await atlas();
+    } catch (err) {
+      if (VECTOR_SEARCH_MODE === "atlas" || !isVectorStageUnavailable(err)) throw err;
+      atlasVectorSearchAvailable = false;
+      console.warn("Atlas $vectorSearch unavailable; using the in-process vector index instead", err);
+    }
+  }
+  return local();
+};
+
+const vectorSearch = (
+  queryVector: number[],
+  scope: AccessScope,
+  options: { limit: number; numCandidates: number; match?: Record<string, unknown> },
+): Promise<{ resource: Resource; score: number }[]> =>
+  withVectorFallback(
+    () => atlasVectorSearch(queryVector, scope, options),
+    () => localVectorSearch(queryVector, scope, options),
+  );
+
+const CHUNK_VECTOR_INDEX = "resource_chunk_embedding_index";
+
+type ChunkHit = { resourceId: string; index: number; score: number };
+
+const chunkCandidates = (queryVector: number[], scope: AccessScope, limit: number): Promise<ChunkHit[]> =>
+  withVectorFallback(
+    async () => {
+      const col = await getResourceChunksCollection();
+      const docs = await col
+        .aggregate([
+          {
+            $vectorSearch: {
+              index: CHUNK_VECTOR_INDEX,
+              path: "embedding",
+              queryVector,
+              numCandidates: limit * 4,
+              limit,
+              filter: scopeFilter(scope),
+            },
+          },
+          { $project: { resourceId: 1, index: 1, score: { $meta: "vectorSearchScore" } } },
+        ])
+        .toArray();
+      return docs.map((doc: any) => ({ resourceId: doc.resourceId, index: doc.index, score: doc.score ?? 0 }));
+    },
+    () => searchLocalChunkVectors(queryVector, scope, limit),
+  );
+
+// Passage-level retrieval: ranks resources by their best-matching chunk and attaches that chunk as the passage.
+const chunkVectorSearch = async (
+  queryVector: number[],
+  scope: AccessScope,
+  options: { limit: number; numCandidates: number; match?: Record<string, unknown> },
+): Promise<{ resource: Resource; score: number }[]> => {
+  const candidates = await chunkCandidates(queryVector, scope, options.numCandidates);
+  const bestByResource = new Map<string, ChunkHit>();
+  candidates.forEach((hit) => {
+    const current = bestByResource.get(hit.resourceId);
+    if (!current || hit.score > current.score) bestByResource.set(hit.resourceId, hit);
+  });
+  const ids = Array.from(bestByResource.keys()).filter((id) => ObjectId.isValid(id));
+  if (ids.length === 0) return [];
+
+  const col = await getResourcesCollection();
+  const docs = await col
+    .find({ $and: [scopeFilter(scope), options.match ?? {}, { _id: { $in: ids.map((id) => new ObjectId(id)) as any[] } }] })
+    .project({ embedding: 0 })
+    .toArray();
+  const top = docs
+    .map((doc) => ({ resource: toResource(doc), hit: bestByResource.get(doc._id.toString()) as ChunkHit }))
+    .sort((a, b) => b.hit.score - a.hit.score)
+    .slice(0, options.limit);
+  if (top.length === 0) return [];
+
+  const cCol = await getResourceChunksCollection();
+  const chunks = await cCol
+    .find({ $or: top.map(({ hit }) => ({ resourceId: hit.resourceId, index: hit.index })) })
+    .project<{ resourceId: string; index: number; text: string; page?: number }>({ resourceId: 1, index: 1, text: 1, page: 1 })
+    .toArray();
+  const chunkByKey = new Map(chunks.map((c) => [`${c.resourceId}:${c.index}`, c]));
+
+  return top.map(({ resource, hit }) => {
+    const chunk = chunkByKey.get(`${hit.resourceId}:${hit.index}`);
+    return {
+      resource: chunk
+        ? { ...resource, passage: { text: chunk.text, page: chunk.page, chunkIndex: chunk.index, score: hit.score } }
+        : resource,
+      score: hit.score,
+    };
+  });
+};
+
+type ResourceSort = "created" | "title" | "type" | "recent";
+
+// Each sort orders by a computed key, then _id, so cursors stay stable for missing or duplicate values.
+const RESOURCE_SORTS: Record<ResourceSort, { key: unknown; direction: 1 | -1 }> = {
+  created: { key: { $ifNull: ["$createdAt", ""] }, direction: -1 },
+  title: { key: { $toLower: { $ifNull: ["$title", ""] } }, direction: 1 },
+  type: { key: { $toLower: { $ifNull: ["$type", ""] } }, direction: 1 },
+  recent: { key: { $ifNull: ["$lastUsedAt", ""] }, direction: -1 },
+};
+
+const encodeCursor = (sortKey: string, id: string) =>
+  Buffer.from(JSON.stringify({ k: sortKey, id })).toString("base64url");
+
+const decodeCursor = (raw: string): { k: string; id: string } | null => {
+  const parsed = safeJsonParse<{ k?: unknown; id?: unknown }>(Buffer.from(raw, "base64url").toString("utf8"));
+  if (!parsed || typeof parsed.k !== "string" || typeof parsed.id !== "string" || !ObjectId.isValid(parsed.id)) {
+    return null;
+  }
+  return { k: parsed.k, id: parsed.id };
+};
+
+type PdfPage = {
+  getTextContent: (options: object) => Promise<{ items: { str: string; transform: number[] }[] }>;
+};
+
+const pdfParser = pdfParse as unknown as (
+  data: Buffer,
+  options?: { pagerender?: (page: PdfPage) => Promise<string> },
+) => Promise<{ text?: string }>;
+
+// Same layout as pdf-parse's default renderer, plus a page break after each page so passages know their page
+const renderPdfPage = async (page: PdfPage) => {
+  const content = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let lastY: number | undefined;
+  let text = "";
+  for (const item of content.items) {
+    text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return `${text}${PAGE_BREAK}`;
+};
 
 const extractTextFromFile = async (mimetype: string, buffer: Buffer): Promise<string> => {
   if (mimetype?.includes("pdf")) {
-    const parsed = await pdfParser(buffer);
+    const parsed = await pdfParser(buffer, { pagerender: renderPdfPage });
     return parsed.text || "";
   }
   if (mimetype?.includes("word") || mimetype?.includes("docx")) {
@@ -199,6 +876,37 @@ const extractTextFromFile = async (mimetype: string, buffer: Buffer): Promise<st
   return "";
 };
 
+const readStoredFile = async (fileId: string): Promise<{ buffer: Buffer; filename: string; contentType: string } | null> => {
+  const bucket = await getUploadsBucket();
+  const [file] = await bucket.find({ _id: new ObjectId(fileId) }).toArray();
+  if (!file) return null;
+  const chunks: Buffer[] = [];
+  for await (const chunk of bucket.openDownloadStream(file._id)) {
+    chunks.push(chunk as Buffer);
+  }
+  return {
+    buffer: Buffer.concat(chunks),
+    filename: file.filename,
+    contentType: (file.metadata && file.metadata.contentType) || "application/octet-stream",
+  };
+};
+
+const saveFileText = async (fileId: string, text: string, meta: { filename?: string; mimetype?: string; ownerId?: string }) => {
+  const col = await getFileTextsCollection();
+  await col.updateOne(
+    { fileId },
+    { $set: { fileId, text, ...meta, extractedAt: new Date().toISOString() } },
+    { upsert: true },
+  );
+};
+
+// Extracted text is keyed by GridFS file id and only returned to the user who uploaded the file.
+const getFileText = async (fileId: string, ownerId?: string): Promise<string | undefined> => {
+  const col = await getFileTextsCollection();
+  const doc = await col.findOne({ fileId, ownerId });
+  return doc?.text;
+};
+
 const buildEmbeddingText = (resource: Partial<Resource>) => {
   const parts = [
     resource.title ?? "",
@@ -211,18 +919,76 @@ const buildEmbeddingText = (resource: Partial<Resource>) => {
   return parts.slice(0, 4000);
 };
 
-const getEmbedding = async (text: string): Promise<number[] | undefined> => {
-  if (!text.trim()) return undefined;
-  if (!process.env.OPENAI_API_KEY) return undefined;
-  const emb = await openai.embeddings.create({
-    model: "text-embedding-3-small",
-    input: text,
+// Lexical-only meters get no embedding; the resource stays stale, so the backfill embeds it later
+const getEmbedding = async (text: string, meter: AiMeter): Promise<number[] | undefined> => {
+  if (!text.trim() || meter.lexicalOnly) return undefined;
+  return embeddingProvider.embed(text, meter.onUsage);
+};
+
+// Rebuilds a resource's passage chunks and their embeddings; resources without text end up with none.
+const indexResourceChunks = async (resourceId: string, access: VectorAccess, text: string | undefined, meter: AiMeter) => {
+  const col = await getResourceChunksCollection();
+  const rCol = await getResourcesCollection();
+  await col.deleteMany({ resourceId });
+  await rCol.updateOne({ _id: new ObjectId(resourceId) as any }, { $unset: { chunkEmbeddingModel: "" } });
+  const chunks = chunkText(text ?? "");
+  const embeddings =
+    chunks.length > 0 && !meter.lexicalOnly ? await embeddingProvider.embedBatch(chunks.map((c) => c.text), meter.onUsage) : [];
+  const createdAt = new Date().toISOString();
+  const docs: ResourceChunk[] = chunks.map((chunk, idx) => ({
+    resourceId,
+    ownerId: access.ownerId,
+    ...(access.teamId ? { teamId: access.teamId } : {}),
+    index: chunk.index,
+    text: chunk.text,
+    start: chunk.start,
+    ...(chunk.page ? { page: chunk.page } : {}),
+    ...(embeddings[idx] ? { embedding: embeddings[idx], embeddingModel: embeddingProvider.model } : {}),
+    createdAt,
+  }));
+  if (docs.length > 0) await col.insertMany(docs);
+  await replaceLocalChunkVectors(resourceId, access, docs);
+
+  // Left unset when any passage failed to embed, so the backfill picks the resource up again
+  if (docs.every((doc) => doc.embedding)) {
+    await rCol.updateOne(
+      { _id: new ObjectId(resourceId) as any },
+      { $set: { chunkEmbeddingModel: embeddingProvider.model } },
+    );
+  }
+  return docs.length;
+};
+
+const removeResourceChunks = async (resourceId: string) => {
+  const col = await getResourceChunksCollection();
+  await col.deleteMany({ resourceId });
+  await removeLocalChunkVectors(resourceId);
+};
+
+// Picks the passage sharing the most query terms; used for resources no chunk-level vector hit covered.
+const bestLexicalPassage = (query: string, text: string | undefined): Passage | undefined => {
+  const qTokens = new Set(tokenize(query).map(stem));
+  if (!text || qTokens.size === 0) return undefined;
+  let best: Passage | undefined;
+  chunkText(text).forEach((chunk) => {
+    const chunkTokens = new Set(tokenize(chunk.text).map(stem));
+    const hits = Array.from(qTokens).filter((tok) => chunkTokens.has(tok)).length;
+    if (hits > 0 && (!best || hits > (best.score ?? 0))) {
+      best = { text: chunk.text, page: chunk.page, chunkIndex: chunk.index, score: hits };
+    }
   });
-  return emb.data?.[0]?.embedding;
+  return best && { ...best, score: (best.score ?? 0) / qTokens.size };
+};
+
+// Built per request from the owner's patients, so their names and dates of birth never reach the LLM provider
+const loadRedactor = async (ownerId: string): Promise<Redactor> => {
+  const col = await getPatientsCollection();
+  const docs = await col.find({ ownerId }, { projection: { name: 1, dateOfBirth: 1 } }).toArray();
+  return createRedactor(docs.map(toPatient).map((p) => ({ name: p.name, dateOfBirth: p.dateOfBirth })));
 };
 
-const suggestFromContent = async (title: string, text: string) => {
-  if (!process.env.OPENAI_API_KEY || !text.trim()) {
+const suggestFromContent = async (title: string, text: string, redactor: Redactor, meter: AiMeter) => {
+  if (!llm.isConfigured || meter.lexicalOnly || !text.trim()) {
     return { tags: [] as string[], ageRange: undefined as string | undefined, type: undefined as string | undefined, summary: undefined as string | undefined };
   }
 
@@ -232,27 +998,32 @@ const suggestFromContent = async (title: string, text: string) => {
     "Respond in JSON with keys: tags (<=8 short lowercase strings), ageRange (string or null), type (one of: PDF, worksheet, drill, board, checklist, story, guide, handout, article, lesson), summary (<=30 words).\n" +
     "Do not invent details. Keep tags specific to speech/phonology/AAC when relevant.";
 
-  const completion = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    messages: [
-      { role: "system", content: prompt },
-      { role: "user", content: `Title: ${title}\n\nExtracted text:\n${clipped}` },
-    ],
-    temperature: 0.2,
-  });
-
-  const raw = completion.choices[0]?.message?.content ?? "{}";
+  const raw =
+    (await llm.complete({
+      task: "metadata",
+      messages: redactor.redactMessages([
+        { role: "system", content: prompt },
+        { role: "user", content: `Title: ${title}\n\nExtracted text:\n${clipped}` },
+      ]),
+      temperature: 0.2,
+      onUsage: meter.onUsage,
+    })) || "{}";
   const parsed = safeJsonParse<{ tags?: string[]; ageRange?: string; type?: string; summary?: string }>(raw) || {};
   return {
-    tags: Array.isArray(parsed.tags) ? parsed.tags.filter(Boolean).map((t) => t.toString()) : [],
+    tags: Array.isArray(parsed.tags) ? parsed.tags.filter(Boolean).map((t) => redactor.restore(t.toString())) : [],
     ageRange: parsed.ageRange || undefined,
     type: parsed.type || undefined,
-    summary: parsed.summary || undefined,
+    summary: parsed.summary ? redactor.restore(parsed.summary) : undefined,
   };
 };
 
-const buildResourceNotes = async (userMessage: string, resources: Resource[]): Promise<string[]> => {
-  if (resources.length === 0) return [];
+const buildResourceNotes = async (
+  userMessage: string,
+  resources: Resource[],
+  redactor: Redactor,
+  meter: AiMeter,
+): Promise<string[]> => {
+  if (resources.length === 0 || meter.lexicalOnly) return [];
 
   const resourceBrief = resources
     .map(
@@ -276,14 +1047,14 @@ const buildResourceNotes = async (userMessage: string, resources: Resource[]): P
     },
   ];
 
-  const completion = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    messages,
+  const text = await llm.complete({
+    task: "notes",
+    messages: redactor.redactMessages(messages),
     temperature: 0.4,
+    onUsage: meter.onUsage,
   });
-
-  const text = completion.choices[0]?.message?.content ?? "";
-  const lines = text
+  const lines = redactor
+    .restore(text)
     .split("\n")
     .map((l) => l.replace(/^\s*\d+\)\s*/, "").trim())
     .filter(Boolean);
@@ -295,111 +1066,1707 @@ app.get("/health", (_req, res) => {
   res.json({ ok: true, message: "Server healthy" });
 });
 
+const LOGIN_THROTTLED = "Too many failed sign-in attempts. Please wait before trying again.";
+
+const sendLoginThrottled = (res: Response, retryAfterSeconds: number) => {
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  return res.status(429).json({ error: LOGIN_THROTTLED, retryAfterSeconds });
+};
+
+// Counts a failed password check against the username and the IP, logging any lockout it starts
+const recordLoginFailure = (username: string, ip: string) => {
+  const byUser = usernameThrottle.recordFailure(username);
+  const byIp = ipThrottle.recordFailure(ip);
+  if (byUser.lockedForSeconds) {
+    console.warn(
+      `Sign-in locked for user "${username}" for ${byUser.lockedForSeconds}s after ${byUser.failures} failed attempts (last from ${ip})`,
+    );
+  }
+  if (byIp.lockedForSeconds) {
+    console.warn(`Sign-in locked for IP ${ip} for ${byIp.lockedForSeconds}s after ${byIp.failures} failed attempts`);
+  }
+};
+
+// Runs a password check under the sign-in throttle. Attempts for the same username, and for the same IP, go one
+// at a time, so parallel guesses cannot all pass the throttle before the first failure is recorded.
+const throttledPasswordCheck = (
+  username: string,
+  ip: string,
+  check: () => Promise<boolean>,
+): Promise<{ retryAfterSeconds: number } | { valid: boolean }> =>
+  usernameThrottle.serialize(username, () =>
+    ipThrottle.serialize(ip, async () => {
+      const wait = Math.max(usernameThrottle.retryAfterSeconds(username), ipThrottle.retryAfterSeconds(ip));
+      if (wait > 0) return { retryAfterSeconds: wait };
+      const valid = await check();
+      if (valid) {
+        usernameThrottle.recordSuccess(username);
+      } else {
+        recordLoginFailure(username, ip);
+      }
+      return { valid };
+    }),
+  );
+
+// Throttled attempts are refused before the password is checked, so a correct guess during a lockout reveals nothing
+app.post("/api/auth/login", async (req: Request, res: Response) => {
+  const { username, password } = req.body || {};
+  if (typeof username !== "string" || typeof password !== "string" || !username.trim() || !password) {
+    return res.status(400).json({ error: "Username and password are required" });
+  }
+  const name = username.trim();
+  const ip = req.ip ?? "unknown";
+  try {
+    const users = await getUsersCollection();
+    const user = await users.findOne({ username: name });
+    const outcome = await throttledPasswordCheck(
+      name,
+      ip,
+      async () => (await verifyPassword(password, user?.passwordHash ?? (await getDecoyHash()))) && Boolean(user),
+    );
+    if ("retryAfterSeconds" in outcome) {
+      return sendLoginThrottled(res, outcome.retryAfterSeconds);
+    }
+    if (!outcome.valid || !user) {
+      return res.status(401).json({ error: "Invalid username or password" });
+    }
+
+    const token = createSessionToken();
+    const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+    const sessions = await getAuthSessionsCollection();
+    await sessions.insertOne({
+      tokenHash: hashSessionToken(token),
+      username: user.username,
+      createdAt: new Date().toISOString(),
+      expiresAt,
+    });
+    const role = user.role ?? DEFAULT_ROLE;
+    res.json({
+      data: {
+        token,
+        expiresAt: expiresAt.toISOString(),
+        user: { username: user.username, email: user.email, role, permissions: permissionsFor(role) },
+      },
+    });
+  } catch (err) {
+    console.error("Failed to sign in", err);
+    res.status(500).json({ error: "Failed to sign in" });
+  }
+});
+
 // Authenticated routes
 app.use("/api", verifyAuth as any);
+app.use("/api", rateLimit(apiRateLimiter) as any);
+app.use("/api/admin", requirePermission("admin"));
 
-// Simple auth check (no DB dependency)
 app.get("/api/auth-check", (req: AuthedRequest, res: Response) => {
-  res.json({ ok: true, user: req.user?.sub });
+  res.json({
+    ok: true,
+    user: req.user?.sub,
+    email: req.user?.email,
+    role: req.user?.role,
+    permissions: permissionsFor(req.user?.role),
+  });
 });
 
-// TEMP: backfill embeddings for resources missing them. Call once, then remove/disable.
-app.post("/api/admin/backfill-embeddings", async (req: AuthedRequest, res: Response) => {
-  const col = await getResourcesCollection();
-  const cursor = col.find({ ownerId: req.user?.sub, embedding: { $exists: false } }).limit(200);
-  let processed = 0;
-  let embedded = 0;
+// A month's token counts, by day and in total, against the budget; lexicalOnly is what AI routes do right now
+const usageSummary = async (userId: string, budget: number, month: string) => {
+  const usage = await getMonthlyUsage(userId, month);
+  const used = totalTokens(usage);
+  return {
+    ...usage,
+    totalTokens: used,
+    budget: budget > 0 ? budget : null,
+    remaining: budget > 0 ? Math.max(budget - used, 0) : null,
+    lexicalOnly: month === monthKey() && budget > 0 && used >= budget,
+    rateLimits: { perMinute: apiRateLimiter.limit, aiPerMinute: aiRateLimiter.limit },
+  };
+};
 
-  for await (const doc of cursor) {
-    processed += 1;
-    const resource = toResource(doc);
-    const embText = buildEmbeddingText(resource);
-    try {
-      const embedding = await getEmbedding(embText);
-      if (embedding) {
-        await col.updateOne({ _id: doc._id }, { $set: { embedding } });
-        embedded += 1;
-      }
-    } catch (err) {
-      console.error("Embedding failed for", doc._id, err);
-    }
+const readMonth = (value: unknown) => (typeof value === "string" && value ? value : monthKey());
+
+// The signed-in user's AI usage; `month` (YYYY-MM) defaults to the current UTC month
+app.get("/api/usage", async (req: AuthedRequest, res: Response) => {
+  const month = readMonth(req.query.month);
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return res.status(400).json({ error: "month must be YYYY-MM" });
+  }
+  try {
+    res.json({ data: await usageSummary(req.user?.sub as string, monthlyBudgetFor(req), month) });
+  } catch (err) {
+    console.error("Failed to fetch AI usage", err);
+    res.status(500).json({ error: "Failed to fetch AI usage" });
+  }
+});
+
+app.post("/api/auth/logout", async (req: AuthedRequest, res: Response) => {
+  try {
+    const sessions = await getAuthSessionsCollection();
+    await sessions.deleteOne({ tokenHash: req.sessionTokenHash });
+    res.status(204).send();
+  } catch (err) {
+    console.error("Failed to sign out", err);
+    res.status(500).json({ error: "Failed to sign out" });
   }
+});
 
-  res.json({ ok: true, processed, embedded });
+// Changing the password signs out every other session of the account
+app.post("/api/auth/password", async (req: AuthedRequest, res: Response) => {
+  const { currentPassword, newPassword } = req.body || {};
+  if (typeof currentPassword !== "string" || typeof newPassword !== "string") {
+    return res.status(400).json({ error: "Current and new password are required" });
+  }
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `New password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+  if (newPassword === currentPassword) {
+    return res.status(400).json({ error: "New password must be different from the current one" });
+  }
+  // Shares the sign-in throttle, so a stolen session cannot be used to guess the password either
+  const username = req.user?.sub as string;
+  const ip = req.ip ?? "unknown";
+  try {
+    const users = await getUsersCollection();
+    const user = await users.findOne({ username });
+    if (!user) {
+      return res.status(400).json({ error: "Current password is incorrect" });
+    }
+    const outcome = await throttledPasswordCheck(username, ip, () => verifyPassword(currentPassword, user.passwordHash));
+    if ("retryAfterSeconds" in outcome) {
+      return sendLoginThrottled(res, outcome.retryAfterSeconds);
+    }
+    if (!outcome.valid) {
+      return res.status(400).json({ error: "Current password is incorrect" });
+    }
+    const now = new Date().toISOString();
+    await users.updateOne({ _id: user._id }, { $set: { passwordHash: await hashPassword(newPassword), updatedAt: now } });
+    const sessions = await getAuthSessionsCollection();
+    await sessions.deleteMany({ username: user.username, tokenHash: { $ne: req.sessionTokenHash as string } });
+    res.status(204).send();
+  } catch (err) {
+    console.error("Failed to change password", err);
+    res.status(500).json({ error: "Failed to change password" });
+  }
 });
 
-// Patients CRUD (minimal)
-app.get("/api/patients", async (req: AuthedRequest, res) => {
+// Shares resources with a team (or makes them private again), keeping passage chunks and local vectors in step
+const setResourcesTeam = async (resourceIds: string[], teamId: string | undefined) => {
+  if (resourceIds.length === 0) return;
+  const update = teamId ? { $set: { teamId } } : { $unset: { teamId: "" as const } };
+  const rCol = await getResourcesCollection();
+  await rCol.updateMany({ _id: { $in: resourceIds.map((rid) => new ObjectId(rid)) as any[] } }, update);
+  const cCol = await getResourceChunksCollection();
+  await cCol.updateMany({ resourceId: { $in: resourceIds } }, update);
+  for (const rid of resourceIds) await setLocalVectorTeam(rid, teamId);
+};
+
+// Makes a team's shared resources private again; with ownerId, only that member's resources
+const unshareFromTeam = async (teamId: string, ownerId?: string) => {
+  const rCol = await getResourcesCollection();
+  const docs = await rCol.find({ teamId, ...(ownerId ? { ownerId } : {}) }).project({ _id: 1 }).toArray();
+  await setResourcesTeam(docs.map((d) => d._id.toString()), undefined);
+};
+
+// Teams: members read each other's shared resources; only team owners manage membership
+app.get("/api/teams", async (req: AuthedRequest, res: Response) => {
   try {
-    const col = await getPatientsCollection();
-    const docs = await col.find({ ownerId: req.user?.sub }).sort({ createdAt: -1 }).limit(200).toArray();
-    res.json({ data: docs.map(toPatient) });
+    const col = await getTeamsCollection();
+    const docs = await col.find({ "members.username": req.user?.sub }).sort({ name: 1 }).toArray();
+    res.json({ data: docs.map(toTeam) });
   } catch (err) {
-    console.error("Failed to fetch patients", err);
-    res.status(500).json({ error: "Failed to fetch patients" });
+    console.error("Failed to fetch teams", err);
+    res.status(500).json({ error: "Failed to fetch teams" });
   }
 });
 
-app.post("/api/patients", async (req: AuthedRequest, res) => {
-  const { name, notes } = req.body;
-  if (!name || typeof name !== "string") {
-    return res.status(400).json({ error: "Name is required" });
+app.post("/api/teams", requirePermission("teams:manage"), async (req: AuthedRequest, res: Response) => {
+  const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+  if (!name || name.length > 100) {
+    return res.status(400).json({ error: "Team name is required (100 characters or fewer)" });
   }
-  const newDoc: Patient = {
-    name: name.trim(),
-    notes: typeof notes === "string" ? notes.trim() : undefined,
-    ownerId: req.user?.sub,
-    ownerEmail: req.user?.email,
-    createdAt: new Date().toISOString(),
+  const now = new Date().toISOString();
+  const newDoc: Team = {
+    name,
+    members: [{ username: req.user?.sub as string, role: "owner", addedAt: now }],
+    createdBy: req.user?.sub,
+    createdAt: now,
   };
   try {
-    const col = await getPatientsCollection();
+    const col = await getTeamsCollection();
     const result = await col.insertOne(newDoc);
     res.status(201).json({ data: { ...newDoc, id: result.insertedId.toString(), _id: result.insertedId.toString() } });
   } catch (err) {
-    console.error("Failed to create patient", err);
-    res.status(500).json({ error: "Failed to create patient" });
+    console.error("Failed to create team", err);
+    res.status(500).json({ error: "Failed to create team" });
   }
 });
 
-app.delete("/api/patients/:id", async (req: AuthedRequest, res) => {
+app.post("/api/teams/:id/members", requirePermission("teams:manage"), async (req: AuthedRequest, res: Response) => {
   const { id } = req.params;
+  const username = typeof req.body?.username === "string" ? req.body.username.trim() : "";
   if (!ObjectId.isValid(id)) {
-    return res.status(400).json({ error: "Invalid patient id" });
+    return res.status(400).json({ error: "Invalid team id" });
+  }
+  if (!username) {
+    return res.status(400).json({ error: "Username is required" });
   }
   try {
-    const col = await getPatientsCollection();
-    const existing = await col.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
-    if (!existing) {
+    const col = await getTeamsCollection();
+    const team = await col.findOne({
+      _id: new ObjectId(id) as any,
+      members: { $elemMatch: { username: req.user?.sub, role: "owner" } },
+    });
+    if (!team) {
+      return res.status(404).json({ error: "Team not found" });
+    }
+    if (team.members.some((m) => m.username === username)) {
+      return res.status(409).json({ error: "Already a member" });
+    }
+    const users = await getUsersCollection();
+    if (!(await users.findOne({ username }))) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const now = new Date().toISOString();
+    await col.updateOne(
+      { _id: team._id },
+      { $push: { members: { username, role: "member", addedAt: now } }, $set: { updatedAt: now } },
+    );
+    const updated = await col.findOne({ _id: team._id });
+    res.json({ data: updated ? toTeam(updated) : null });
+  } catch (err) {
+    console.error("Failed to add team member", err);
+    res.status(500).json({ error: "Failed to add team member" });
+  }
+});
+
+// Owners remove anyone; members can remove themselves. A departing member's shared resources become private.
+app.delete("/api/teams/:id/members/:username", async (req: AuthedRequest, res: Response) => {
+  const { id, username } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid team id" });
+  }
+  try {
+    const col = await getTeamsCollection();
+    const team = await col.findOne({ _id: new ObjectId(id) as any, "members.username": req.user?.sub });
+    if (!team) {
+      return res.status(404).json({ error: "Team not found" });
+    }
+    const isOwner = team.members.some((m) => m.username === req.user?.sub && m.role === "owner");
+    if (username !== req.user?.sub && !isOwner) {
+      return res.status(403).json({ error: "Only team owners can remove other members" });
+    }
+    const member = team.members.find((m) => m.username === username);
+    if (!member) {
+      return res.status(404).json({ error: "Member not found" });
+    }
+    if (member.role === "owner" && team.members.filter((m) => m.role === "owner").length === 1) {
+      return res.status(400).json({ error: "A team needs at least one owner; delete the team instead" });
+    }
+    await col.updateOne(
+      { _id: team._id },
+      { $pull: { members: { username } }, $set: { updatedAt: new Date().toISOString() } },
+    );
+    await unshareFromTeam(id, username);
+    res.status(204).send();
+  } catch (err) {
+    console.error("Failed to remove team member", err);
+    res.status(500).json({ error: "Failed to remove team member" });
+  }
+});
+
+app.delete("/api/teams/:id", requirePermission("teams:manage"), async (req: AuthedRequest, res: Response) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid team id" });
+  }
+  try {
+    const col = await getTeamsCollection();
+    const result = await col.deleteOne({
+      _id: new ObjectId(id) as any,
+      members: { $elemMatch: { username: req.user?.sub, role: "owner" } },
+    });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: "Team not found" });
+    }
+    await unshareFromTeam(id);
+    res.status(204).send();
+  } catch (err) {
+    console.error("Failed to delete team", err);
+    res.status(500).json({ error: "Failed to delete team" });
+  }
+});
+
+// Embeddings written before providers were pluggable carry no embeddingModel and came from this model.
+const LEGACY_EMBEDDING_MODEL = "text-embedding-3-small";
+
+// Resources with no embedding, or one produced by a different model than the current provider's
+const staleEmbeddingFilter = () => {
+  const model = embeddingProvider.model;
+  const otherModel =
+    model === LEGACY_EMBEDDING_MODEL ? { embeddingModel: { $exists: true, $ne: model } } : { embeddingModel: { $ne: model } };
+  return {
+    $or: [
+      { embedding: { $exists: false } },
+      otherModel,
+      // Text whose passage chunks are missing or were embedded by another model
+      { extractedText: { $exists: true, $ne: "" }, chunkEmbeddingModel: { $ne: model } },
+    ],
+  };
+};
+
+// Backfill embeddings for resources missing them or embedded by another provider. Repeat until embedded is 0.
+// Admin routes cover every account's resources; the tokens are charged to the admin who runs them.
+app.post("/api/admin/backfill-embeddings", rateLimit(aiRateLimiter), meterAi, async (req: AuthedRequest, res: Response) => {
+  const meter = req.aiMeter as AiMeter;
+  if (meter.lexicalOnly) {
+    return res.json({ ok: true, processed: 0, embedded: 0, passages: 0, lexicalOnly: true });
+  }
+  const col = await getResourcesCollection();
+  const cursor = col.find(staleEmbeddingFilter()).limit(200);
+  let processed = 0;
+  let embedded = 0;
+  let passages = 0;
+
+  for await (const doc of cursor) {
+    processed += 1;
+    const resource = toResource(doc);
+    const embText = buildEmbeddingText(resource);
+    try {
+      const embedding = await getEmbedding(embText, meter);
+      if (embedding) {
+        await col.updateOne({ _id: doc._id }, { $set: { embedding, embeddingModel: embeddingProvider.model } });
+        const access = { ownerId: doc.ownerId, teamId: doc.teamId };
+        await upsertLocalVector(doc._id.toString(), access, embedding);
+        passages += await indexResourceChunks(doc._id.toString(), access, resource.extractedText, meter);
+        embedded += 1;
+      }
+    } catch (err) {
+      console.error("Embedding failed for", doc._id, err);
+    }
+  }
+
+  res.json({ ok: true, processed, embedded, passages });
+});
+
+// Re-extract text from stored files and rebuild embeddings for file-backed resources. Over budget, text is still
+// re-extracted but nothing is embedded.
+app.post("/api/admin/reextract-files", rateLimit(aiRateLimiter), meterAi, async (req: AuthedRequest, res: Response) => {
+  const meter = req.aiMeter as AiMeter;
+  const col = await getResourcesCollection();
+  const cursor = col.find({ fileId: { $exists: true, $ne: "" } }).limit(200);
+  let processed = 0;
+  let extracted = 0;
+  let embedded = 0;
+
+  for await (const doc of cursor) {
+    processed += 1;
+    if (!doc.fileId || !ObjectId.isValid(doc.fileId)) continue;
+    try {
+      const stored = await readStoredFile(doc.fileId);
+      if (!stored) continue;
+      const text = await extractTextFromFile(stored.contentType, stored.buffer);
+      await saveFileText(doc.fileId, text, { filename: stored.filename, mimetype: stored.contentType, ownerId: doc.ownerId });
+      extracted += 1;
+
+      const updateDoc: Partial<Resource> = { extractedText: text };
+      const embedding = await getEmbedding(buildEmbeddingText({ ...toResource(doc), extractedText: text }), meter);
+      if (embedding) {
+        updateDoc.embedding = embedding;
+        updateDoc.embeddingModel = embeddingProvider.model;
+        embedded += 1;
+      }
+      await col.updateOne({ _id: doc._id }, { $set: updateDoc });
+      if (updateDoc.embedding) {
+        await upsertLocalVector(doc._id.toString(), { ownerId: doc.ownerId, teamId: doc.teamId }, updateDoc.embedding);
+      }
+      await indexResourceChunks(doc._id.toString(), { ownerId: doc.ownerId, teamId: doc.teamId }, text, meter);
+    } catch (err) {
+      console.error("Re-extraction failed for", doc._id, err);
+    }
+  }
+
+  res.json({ ok: true, processed, extracted, embedded, ...(meter.lexicalOnly ? { lexicalOnly: true } : {}) });
+});
+
+const REENCRYPT_BATCH_SIZE = 200;
+
+// Re-encrypts patient names and notes with the current FIELD_ENCRYPTION_KEYS key and rebuilds name blind indexes
+// made with another FIELD_BLIND_INDEX_KEY (or none), 200 records at a time. Pass nextCursor back as `cursor` until
+// it is null, then retire the old keys. Records whose key is gone are counted as skipped.
+app.post("/api/admin/reencrypt-patients", async (req: AuthedRequest, res: Response) => {
+  const cursor = typeof req.query.cursor === "string" ? req.query.cursor : undefined;
+  if (cursor && !ObjectId.isValid(cursor)) {
+    return res.status(400).json({ error: "Invalid cursor" });
+  }
+  const stale: Record<string, unknown>[] = [{ nameIndexKey: { $ne: fieldCipher.blindIndexId } }];
+  if (fieldCipher.currentKeyId) {
+    const current = new RegExp(`^enc:v1:${fieldCipher.currentKeyId}:`);
+    stale.push({ name: { $not: current } }, { notes: { $exists: true, $not: current } });
+  }
+  try {
+    const col = await getPatientsCollection();
+    const result = await reencryptBatch(
+      (after, limit) =>
+        col
+          .find({ $or: stale, ...(after ? { _id: { $gt: new ObjectId(after) } } : {}) } as any)
+          .sort({ _id: 1 })
+          .limit(limit)
+          .toArray(),
+      async (doc) => {
+        const patient = toPatient(doc);
+        // Re-sealing an unreadable record would overwrite its name with an empty one
+        if (patient.unreadable) return "skipped";
+        await col.updateOne(
+          { _id: doc._id },
+          { $set: sealPatientFields({ name: patient.name, ...(doc.notes !== undefined ? { notes: patient.notes } : {}) }) },
+        );
+        return "reencrypted";
+      },
+      { cursor, limit: REENCRYPT_BATCH_SIZE },
+    );
+    res.json({ ok: true, ...result, keyId: fieldCipher.currentKeyId ?? null });
+  } catch (err) {
+    console.error("Failed to re-encrypt patients", err);
+    res.status(500).json({ error: "Failed to re-encrypt patients" });
+  }
+});
+
+const toUserSummary = (user: User) => ({
+  username: user.username,
+  email: user.email,
+  role: user.role ?? DEFAULT_ROLE,
+  monthlyTokenBudget: user.monthlyTokenBudget ?? null,
+  createdAt: user.createdAt,
+});
+
+app.get("/api/admin/users", async (_req: AuthedRequest, res: Response) => {
+  try {
+    const col = await getUsersCollection();
+    const docs = await col.find({}).sort({ username: 1 }).toArray();
+    res.json({ data: docs.map(toUserSummary) });
+  } catch (err) {
+    console.error("Failed to fetch users", err);
+    res.status(500).json({ error: "Failed to fetch users" });
+  }
+});
+
+// Changing a role takes effect on the user's next request; the last admin cannot be demoted
+app.put("/api/admin/users/:username/role", async (req: AuthedRequest, res: Response) => {
+  const { username } = req.params;
+  const { role } = req.body || {};
+  if (!isRole(role)) {
+    return res.status(400).json({ error: `Role must be one of: ${ROLES.join(", ")}` });
+  }
+  try {
+    const col = await getUsersCollection();
+    const user = await col.findOne({ username });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    if ((user.role ?? DEFAULT_ROLE) === "admin" && role !== "admin" && (await col.countDocuments({ role: "admin" })) <= 1) {
+      return res.status(400).json({ error: "At least one admin is required" });
+    }
+    const now = new Date().toISOString();
+    await col.updateOne({ _id: user._id }, { $set: { role, updatedAt: now } });
+    res.json({ data: toUserSummary({ ...user, role, updatedAt: now }) });
+  } catch (err) {
+    console.error("Failed to update user role", err);
+    res.status(500).json({ error: "Failed to update user role" });
+  }
+});
+
+// Sets an account's monthly token budget, overriding AI_MONTHLY_TOKEN_BUDGET; 0 is unlimited and null restores
+// the default. Takes effect on the user's next request.
+app.put("/api/admin/users/:username/budget", async (req: AuthedRequest, res: Response) => {
+  const { username } = req.params;
+  const budget = req.body?.monthlyTokenBudget;
+  if (budget !== null && (!Number.isInteger(budget) || budget < 0)) {
+    return res.status(400).json({ error: "monthlyTokenBudget must be a whole number of tokens, 0 for unlimited, or null" });
+  }
+  try {
+    const col = await getUsersCollection();
+    const user = await col.findOne({ username });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const now = new Date().toISOString();
+    await col.updateOne(
+      { _id: user._id },
+      budget === null
+        ? { $set: { updatedAt: now }, $unset: { monthlyTokenBudget: "" } }
+        : { $set: { monthlyTokenBudget: budget, updatedAt: now } },
+    );
+    res.json({ data: toUserSummary({ ...user, monthlyTokenBudget: budget ?? undefined, updatedAt: now }) });
+  } catch (err) {
+    console.error("Failed to update user budget", err);
+    res.status(500).json({ error: "Failed to update user budget" });
+  }
+});
+
+app.get("/api/admin/users/:username/usage", async (req: AuthedRequest, res: Response) => {
+  const month = readMonth(req.query.month);
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return res.status(400).json({ error: "month must be YYYY-MM" });
+  }
+  try {
+    const col = await getUsersCollection();
+    const user = await col.findOne({ username: req.params.username });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json({ data: await usageSummary(user.username, user.monthlyTokenBudget ?? AI_MONTHLY_TOKEN_BUDGET, month) });
+  } catch (err) {
+    console.error("Failed to fetch AI usage", err);
+    res.status(500).json({ error: "Failed to fetch AI usage" });
+  }
+});
+
+const toAuditEntry = (doc: any): AuditEntry => ({
+  id: doc._id?.toString(),
+  at: doc.at,
+  requestId: doc.requestId,
+  actor: doc.actor,
+  role: doc.role,
+  action: doc.action,
+  targetType: doc.targetType,
+  targetId: doc.targetId,
+  method: doc.method,
+  path: doc.path,
+  status: doc.status,
+  ip: doc.ip,
+  details: doc.details,
+});
+
+// Newest first; pass nextCursor back as `cursor` for the next page
+app.get("/api/admin/audit", async (req: AuthedRequest, res: Response) => {
+  const parsed = parseAuditFilter(req.query);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const cursor = typeof req.query.cursor === "string" ? req.query.cursor : undefined;
+  if (cursor && !ObjectId.isValid(cursor)) {
+    return res.status(400).json({ error: "Invalid cursor" });
+  }
+  const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+  const filter = cursor ? { ...parsed.filter, _id: { $lt: new ObjectId(cursor) } } : parsed.filter;
+  try {
+    const col = await getAuditLogCollection();
+    const docs = await col
+      .find(filter as any)
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .toArray();
+    const page = docs.slice(0, limit);
+    const last = page[page.length - 1];
+    res.json({
+      data: page.map(toAuditEntry),
+      nextCursor: docs.length > limit && last ? last._id.toString() : null,
+    });
+  } catch (err) {
+    console.error("Failed to fetch audit log", err);
+    res.status(500).json({ error: "Failed to fetch audit log" });
+  }
+});
+
+// Streams every matching entry, oldest first, as CSV (default) or NDJSON (format=ndjson). Exports are audited too.
+app.get(
+  "/api/admin/audit/export",
+  audit("audit.export", undefined, (req) => ({ query: req.query })),
+  async (req: AuthedRequest, res: Response) => {
+    const parsed = parseAuditFilter(req.query);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const ndjson = req.query.format === "ndjson";
+    try {
+      const col = await getAuditLogCollection();
+      const cursor = col.find(parsed.filter as any).sort({ _id: 1 });
+      const stamp = new Date().toISOString().slice(0, 10);
+      res.setHeader("Content-Type", ndjson ? "application/x-ndjson" : "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-${stamp}.${ndjson ? "ndjson" : "csv"}"`);
+      if (!ndjson) res.write(`${AUDIT_CSV_COLUMNS.join(",")}\n`);
+      for await (const doc of cursor) {
+        if (res.destroyed) break;
+        const entry = toAuditEntry(doc);
+        res.write(ndjson ? `${JSON.stringify(entry)}\n` : `${toAuditCsvRow(entry)}\n`);
+      }
+      await cursor.close();
+      res.end();
+    } catch (err) {
+      console.error("Failed to export audit log", err);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ error: "Failed to export audit log" });
+      }
+    }
+  },
+);
+
+const COMMUNICATION_MODALITIES: CommunicationModality[] = ["verbal", "aac", "sign", "mixed"];
+const CASELOAD_STATUSES: CaseloadStatus[] = ["active", "discharged"];
+
+type PatientInput = {
+  set: Partial<Patient>;
+  unset: (keyof Patient)[];
+};
+
+// Validates the editable patient fields present in `body`. null or "" clears an optional field; with `partial`
+// (updates) missing fields are left alone, otherwise a name is required. Lists accept arrays or comma-separated text.
+const parsePatientInput = (body: any, partial: boolean): PatientInput | { error: string } => {
+  const errors: string[] = [];
+  const input: PatientInput = { set: {}, unset: [] };
+  const has = (key: string) => body && Object.prototype.hasOwnProperty.call(body, key);
+  const cleared = (key: string) => body[key] === null || body[key] === "";
+
+  if (has("name") || !partial) {
+    if (typeof body?.name !== "string" || !body.name.trim()) errors.push("Name is required.");
+    else if (body.name.trim().length > 120) errors.push("Name must be 120 characters or fewer.");
+    else input.set.name = body.name.trim();
+  }
+
+  if (has("notes")) {
+    if (cleared("notes")) input.unset.push("notes");
+    else if (typeof body.notes !== "string") errors.push("Notes must be text.");
+    else if (body.notes.length > 5000) errors.push("Notes must be 5000 characters or fewer.");
+    else input.set.notes = body.notes.trim();
+  }
+
+  if (has("dateOfBirth")) {
+    const value = body.dateOfBirth;
+    if (cleared("dateOfBirth")) {
+      input.unset.push("dateOfBirth");
+    } else {
+      const date = parseIsoDate(value);
+      if (!date) errors.push("Date of birth must be a valid date (YYYY-MM-DD).");
+      else if (date.getTime() > Date.now()) errors.push("Date of birth cannot be in the future.");
+      else if ((ageFromDateOfBirth(value) ?? 0) > 120) errors.push("Date of birth is too far in the past.");
+      else input.set.dateOfBirth = value;
+    }
+  }
+
+  (
+    [
+      ["diagnoses", "Diagnoses", 20],
+      ["targetSounds", "Target sounds", 30],
+    ] as const
+  ).forEach(([key, label, max]) => {
+    if (!has(key)) return;
+    const raw = body[key];
+    const list = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : raw === null ? [] : undefined;
+    if (!list || list.some((item: unknown) => typeof item !== "string")) {
+      errors.push(`${label} must be a list of text values.`);
+      return;
+    }
+    const values = Array.from(new Set(list.map((item: string) => item.trim()).filter(Boolean))) as string[];
+    if (values.length > max) errors.push(`${label} can have at most ${max} entries.`);
+    else if (values.some((v) => v.length > 100)) errors.push(`${label} entries must be 100 characters or fewer.`);
+    else input.set[key] = values;
+  });
+
+  if (has("communicationModality")) {
+    if (cleared("communicationModality")) input.unset.push("communicationModality");
+    else if (!COMMUNICATION_MODALITIES.includes(body.communicationModality)) {
+      errors.push(`Communication modality must be one of ${COMMUNICATION_MODALITIES.join(", ")}.`);
+    } else input.set.communicationModality = body.communicationModality;
+  }
+
+  if (has("status") && !cleared("status")) {
+    if (!CASELOAD_STATUSES.includes(body.status)) errors.push(`Status must be one of ${CASELOAD_STATUSES.join(", ")}.`);
+    else input.set.status = body.status;
+  }
+
+  return errors.length > 0 ? { error: errors.join(" ") } : input;
+};
+
+// Encrypts name and notes for storage and refreshes the name's blind index
+const sealPatientFields = (set: Partial<Patient>): Partial<Patient> => ({
+  ...set,
+  ...(set.name !== undefined
+    ? {
+        name: fieldCipher.encrypt(set.name, "name"),
+        nameIndex: fieldCipher.indexTerms(set.name),
+        nameIndexKey: fieldCipher.blindIndexId,
+      }
+    : {}),
+  ...(set.notes !== undefined ? { notes: fieldCipher.encrypt(set.notes, "notes") } : {}),
+});
+
+// Patients CRUD. `name` finds patients whose name contains every word given, through the blind index.
+app.get("/api/patients", audit("patient.list"), async (req: AuthedRequest, res) => {
+  try {
+    const filter: Record<string, unknown> = { ownerId: req.user?.sub };
+    const name = typeof req.query.name === "string" ? req.query.name : "";
+    const terms = fieldCipher.indexTerms(name);
+    if (terms.length > 0) filter.nameIndex = { $all: terms };
+    const col = await getPatientsCollection();
+    const docs = await col.find(filter).sort({ createdAt: -1 }).limit(200).toArray();
+    const showNotes = canSeePatientNotes(req);
+    res.json({ data: docs.map(toPatient).map((p) => (showNotes ? p : { ...p, notes: undefined })) });
+  } catch (err) {
+    console.error("Failed to fetch patients", err);
+    res.status(500).json({ error: "Failed to fetch patients" });
+  }
+});
+
+app.post("/api/patients", audit("patient.create", PATIENT_TARGET), requirePermission("patients:write"), async (req: AuthedRequest, res) => {
+  const input = parsePatientInput(req.body, false);
+  if ("error" in input) {
+    return res.status(400).json({ error: input.error });
+  }
+  const newDoc: Patient = {
+    diagnoses: [],
+    targetSounds: [],
+    status: "active",
+    ...(sealPatientFields(input.set) as Patient),
+    ownerId: req.user?.sub,
+    ownerEmail: req.user?.email,
+    createdAt: new Date().toISOString(),
+  };
+  try {
+    const col = await getPatientsCollection();
+    const result = await col.insertOne(newDoc);
+    res.locals.auditTargetId = result.insertedId.toString();
+    res.status(201).json({ data: toPatient({ ...newDoc, _id: result.insertedId }) });
+  } catch (err) {
+    console.error("Failed to create patient", err);
+    res.status(500).json({ error: "Failed to create patient" });
+  }
+});
+
+// Partial update; resource links and conversations keep pointing at the same patient id
+app.put("/api/patients/:id", audit("patient.update", PATIENT_TARGET, (req) => ({ fields: Object.keys(req.body || {}) })), requirePermission("patients:write"), async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid patient id" });
+  }
+  const input = parsePatientInput(req.body, true);
+  if ("error" in input) {
+    return res.status(400).json({ error: input.error });
+  }
+  try {
+    const col = await getPatientsCollection();
+    const existing = await col.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!existing) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+    await col.updateOne(
+      { _id: new ObjectId(id) as any },
+      {
+        $set: { ...sealPatientFields(input.set), updatedAt: new Date().toISOString() },
+        ...(input.unset.length > 0 ? { $unset: Object.fromEntries(input.unset.map((key) => [key, ""])) } : {}),
+      },
+    );
+    const updated = await col.findOne({ _id: new ObjectId(id) as any });
+    res.json({ data: updated ? toPatient(updated) : null });
+  } catch (err) {
+    console.error("Failed to update patient", err);
+    res.status(500).json({ error: "Failed to update patient" });
+  }
+});
+
+app.delete("/api/patients/:id", audit("patient.delete", PATIENT_TARGET), requirePermission("patients:delete"), async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid patient id" });
+  }
+  try {
+    const col = await getPatientsCollection();
+    const existing = await col.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!existing) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+    await col.deleteOne({ _id: new ObjectId(id) as any });
+
+    // Remove patient from resources
+    const rCol = await getResourcesCollection();
+    await rCol.updateMany({ ownerId: req.user?.sub }, { $pull: { patientIds: id } });
+
+    // Goals go with the patient, and resources stop pointing at them
+    const gCol = await getGoalsCollection();
+    const goalIds = (await gCol.find({ ownerId: req.user?.sub, patientId: id }).project({ _id: 1 }).toArray()).map((g) =>
+      g._id.toString(),
+    );
+    if (goalIds.length > 0) {
+      await gCol.deleteMany({ ownerId: req.user?.sub, patientId: id });
+      await rCol.updateMany({ ownerId: req.user?.sub }, { $pull: { goalIds: { $in: goalIds } } } as any);
+    }
+
+    const sCol = await getSessionsCollection();
+    await sCol.deleteMany({ ownerId: req.user?.sub, patientId: id });
+
+    // Conversations started for the patient carry on as general chats
+    const cCol = await getConversationsCollection();
+    await cCol.updateMany({ ownerId: req.user?.sub, patientId: id }, { $unset: { patientId: "" } });
+
+    res.status(204).send();
+  } catch (err) {
+    console.error("Failed to delete patient", err);
+    res.status(500).json({ error: "Failed to delete patient" });
+  }
+});
+
+const GOAL_DOMAINS: GoalDomain[] = [
+  "articulation",
+  "phonology",
+  "language",
+  "fluency",
+  "voice",
+  "pragmatics",
+  "aac",
+  "literacy",
+  "feeding",
+  "other",
+];
+const GOAL_STATUSES: GoalStatus[] = ["active", "met", "on-hold", "discontinued"];
+
+// Validates goal fields the same way as parsePatientInput: everything but reviewDate is required on create.
+const parseGoalInput = (body: any, partial: boolean): { set: Partial<Goal>; unset: (keyof Goal)[] } | { error: string } => {
+  const errors: string[] = [];
+  const set: Partial<Goal> = {};
+  const unset: (keyof Goal)[] = [];
+  const has = (key: string) => body && Object.prototype.hasOwnProperty.call(body, key);
+
+  if (has("domain") || !partial) {
+    if (!GOAL_DOMAINS.includes(body?.domain)) errors.push(`Domain must be one of ${GOAL_DOMAINS.join(", ")}.`);
+    else set.domain = body.domain;
+  }
+
+  (
+    [
+      ["target", "Target"],
+      ["criterion", "Criterion"],
+    ] as const
+  ).forEach(([key, label]) => {
+    if (!has(key) && partial) return;
+    const value = body?.[key];
+    if (typeof value !== "string" || !value.trim()) errors.push(`${label} is required.`);
+    else if (value.trim().length > 500) errors.push(`${label} must be 500 characters or fewer.`);
+    else set[key] = value.trim();
+  });
+
+  if (has("status")) {
+    if (!GOAL_STATUSES.includes(body.status)) errors.push(`Status must be one of ${GOAL_STATUSES.join(", ")}.`);
+    else set.status = body.status;
+  }
+
+  if (has("startDate")) {
+    if (!parseIsoDate(body.startDate)) errors.push("Start date must be a valid date (YYYY-MM-DD).");
+    else set.startDate = body.startDate;
+  }
+
+  if (has("reviewDate")) {
+    if (body.reviewDate === null || body.reviewDate === "") unset.push("reviewDate");
+    else if (!parseIsoDate(body.reviewDate)) errors.push("Review date must be a valid date (YYYY-MM-DD).");
+    else set.reviewDate = body.reviewDate;
+  }
+
+  return errors.length > 0 ? { error: errors.join(" ") } : { set, unset };
+};
+
+// Resolves :id and :goalId to a goal of that patient, both owned by the caller
+const findPatientGoal = async (
+  req: AuthedRequest,
+): Promise<{ goal: Goal } | { status: number; error: string }> => {
+  const { id, goalId } = req.params as { id: string; goalId: string };
+  if (!ObjectId.isValid(id) || !ObjectId.isValid(goalId)) {
+    return { status: 400, error: "Invalid patient or goal id" };
+  }
+  const col = await getGoalsCollection();
+  const doc = await col.findOne({ _id: new ObjectId(goalId) as any, patientId: id, ownerId: req.user?.sub });
+  return doc ? { goal: toGoal(doc) } : { status: 404, error: "Goal not found" };
+};
+
+// All of the caller's goals, for labelling resource cards; optional ?status= filter
+app.get("/api/goals", audit("goal.list"), async (req: AuthedRequest, res) => {
+  const filter: Record<string, unknown> = { ownerId: req.user?.sub };
+  if (typeof req.query.status === "string" && req.query.status) {
+    filter.status = req.query.status;
+  }
+  try {
+    const col = await getGoalsCollection();
+    const docs = await col.find(filter).sort({ createdAt: 1 }).limit(1000).toArray();
+    res.json({ data: docs.map(toGoal) });
+  } catch (err) {
+    console.error("Failed to fetch goals", err);
+    res.status(500).json({ error: "Failed to fetch goals" });
+  }
+});
+
+// Goals CRUD, per patient
+app.get("/api/patients/:id/goals", audit("goal.list", PATIENT_TARGET), async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid patient id" });
+  }
+  try {
+    const pCol = await getPatientsCollection();
+    const patient = await pCol.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!patient) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+    const col = await getGoalsCollection();
+    const docs = await col.find({ ownerId: req.user?.sub, patientId: id }).sort({ createdAt: 1 }).toArray();
+    res.json({ data: docs.map(toGoal) });
+  } catch (err) {
+    console.error("Failed to fetch goals", err);
+    res.status(500).json({ error: "Failed to fetch goals" });
+  }
+});
+
+app.post("/api/patients/:id/goals", audit("goal.create", PATIENT_TARGET), requirePermission("patients:write"), async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid patient id" });
+  }
+  const input = parseGoalInput(req.body, false);
+  if ("error" in input) {
+    return res.status(400).json({ error: input.error });
+  }
+  const startDate = input.set.startDate ?? new Date().toISOString().slice(0, 10);
+  if (input.set.reviewDate && input.set.reviewDate < startDate) {
+    return res.status(400).json({ error: "Review date cannot be before the start date." });
+  }
+  const newDoc: Goal = {
+    ...(input.set as Goal),
+    patientId: id,
+    status: input.set.status ?? "active",
+    startDate,
+    ownerId: req.user?.sub,
+    ownerEmail: req.user?.email,
+    createdAt: new Date().toISOString(),
+  };
+  try {
+    const pCol = await getPatientsCollection();
+    const patient = await pCol.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!patient) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+    const col = await getGoalsCollection();
+    const result = await col.insertOne(newDoc);
+    res.locals.auditDetails = { goalId: result.insertedId.toString() };
+    res.status(201).json({ data: { ...newDoc, id: result.insertedId.toString(), _id: result.insertedId.toString() } });
+  } catch (err) {
+    console.error("Failed to create goal", err);
+    res.status(500).json({ error: "Failed to create goal" });
+  }
+});
+
+app.put("/api/patients/:id/goals/:goalId", audit("goal.update", PATIENT_TARGET), requirePermission("patients:write"), async (req: AuthedRequest, res) => {
+  const input = parseGoalInput(req.body, true);
+  if ("error" in input) {
+    return res.status(400).json({ error: input.error });
+  }
+  try {
+    const found = await findPatientGoal(req);
+    if ("error" in found) {
+      return res.status(found.status).json({ error: found.error });
+    }
+    const startDate = input.set.startDate ?? found.goal.startDate;
+    const reviewDate = input.unset.includes("reviewDate") ? undefined : input.set.reviewDate ?? found.goal.reviewDate;
+    if (reviewDate && reviewDate < startDate) {
+      return res.status(400).json({ error: "Review date cannot be before the start date." });
+    }
+    const col = await getGoalsCollection();
+    await col.updateOne(
+      { _id: new ObjectId(found.goal.id) as any },
+      {
+        $set: { ...input.set, updatedAt: new Date().toISOString() },
+        ...(input.unset.length > 0 ? { $unset: Object.fromEntries(input.unset.map((key) => [key, ""])) } : {}),
+      },
+    );
+    const updated = await col.findOne({ _id: new ObjectId(found.goal.id) as any });
+    res.json({ data: updated ? toGoal(updated) : null });
+  } catch (err) {
+    console.error("Failed to update goal", err);
+    res.status(500).json({ error: "Failed to update goal" });
+  }
+});
+
+app.delete("/api/patients/:id/goals/:goalId", audit("goal.delete", PATIENT_TARGET), requirePermission("patients:write"), async (req: AuthedRequest, res) => {
+  try {
+    const found = await findPatientGoal(req);
+    if ("error" in found) {
+      return res.status(found.status).json({ error: found.error });
+    }
+    const col = await getGoalsCollection();
+    await col.deleteOne({ _id: new ObjectId(found.goal.id) as any });
+
+    // Resources stay linked to the patient, just not to this goal
+    const rCol = await getResourcesCollection();
+    await rCol.updateMany({ ownerId: req.user?.sub }, { $pull: { goalIds: found.goal.id as string } });
+
+    res.status(204).send();
+  } catch (err) {
+    console.error("Failed to delete goal", err);
+    res.status(500).json({ error: "Failed to delete goal" });
+  }
+});
+
+// Link a resource to a goal; this also links it to the goal's patient
+app.put("/api/patients/:id/goals/:goalId/resources/:resourceId", audit("goal.link-resource", PATIENT_TARGET), requirePermission("patients:write"), async (req: AuthedRequest, res) => {
+  const { resourceId } = req.params;
+  if (!ObjectId.isValid(resourceId)) {
+    return res.status(400).json({ error: "Invalid resource id" });
+  }
+  try {
+    const found = await findPatientGoal(req);
+    if ("error" in found) {
+      return res.status(found.status).json({ error: found.error });
+    }
+    const rCol = await getResourcesCollection();
+    const existing = await rCol.findOne({ _id: new ObjectId(resourceId) as any, ownerId: req.user?.sub });
+    if (!existing) {
+      return res.status(404).json({ error: "Resource not found" });
+    }
+    await rCol.updateOne(
+      { _id: new ObjectId(resourceId) as any },
+      { $addToSet: { goalIds: found.goal.id as string, patientIds: found.goal.patientId } },
+    );
+    const updated = await rCol.findOne({ _id: new ObjectId(resourceId) as any });
+    res.json({ data: updated ? toResource(updated) : null });
+  } catch (err) {
+    console.error("Failed to link resource to goal", err);
+    res.status(500).json({ error: "Failed to link resource to goal" });
+  }
+});
+
+app.delete("/api/patients/:id/goals/:goalId/resources/:resourceId", audit("goal.unlink-resource", PATIENT_TARGET), requirePermission("patients:write"), async (req: AuthedRequest, res) => {
+  const { resourceId } = req.params;
+  if (!ObjectId.isValid(resourceId)) {
+    return res.status(400).json({ error: "Invalid resource id" });
+  }
+  try {
+    const found = await findPatientGoal(req);
+    if ("error" in found) {
+      return res.status(found.status).json({ error: found.error });
+    }
+    const rCol = await getResourcesCollection();
+    const existing = await rCol.findOne({
+      _id: new ObjectId(resourceId) as any,
+      ownerId: req.user?.sub,
+      goalIds: found.goal.id,
+    });
+    if (!existing) {
+      return res.status(404).json({ error: "Resource not linked to goal" });
+    }
+    await rCol.updateOne({ _id: new ObjectId(resourceId) as any }, { $pull: { goalIds: found.goal.id as string } });
+    const updated = await rCol.findOne({ _id: new ObjectId(resourceId) as any });
+    res.json({ data: updated ? toResource(updated) : null });
+  } catch (err) {
+    console.error("Failed to unlink resource from goal", err);
+    res.status(500).json({ error: "Failed to unlink resource from goal" });
+  }
+});
+
+const MAX_SESSION_TRIALS = 1000;
+
+const isTrialCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= MAX_SESSION_TRIALS;
+
+// Validates the shape of a session log; goal and resource ownership is checked by the route.
+// Goals with no trials recorded (all three counts zero) are dropped.
+const parseSessionInput = (
+  body: any,
+):
+  | { date: string; durationMinutes?: number; notes?: string; resourceIds: string[]; trials: GoalTrials[]; plan?: unknown }
+  | { error: string } => {
+  const errors: string[] = [];
+  const date = body?.date ?? new Date().toISOString().slice(0, 10);
+  const parsedDate = parseIsoDate(date);
+  if (!parsedDate) errors.push("Date must be a valid date (YYYY-MM-DD).");
+  else if (parsedDate.getTime() > Date.now()) errors.push("Date cannot be in the future.");
+
+  const durationMinutes = body?.durationMinutes;
+  if (
+    durationMinutes !== undefined &&
+    durationMinutes !== null &&
+    !(Number.isInteger(durationMinutes) && durationMinutes > 0 && durationMinutes <= 600)
+  ) {
+    errors.push("Duration must be a whole number of minutes between 1 and 600.");
+  }
+
+  const notes = typeof body?.notes === "string" ? body.notes.trim() : "";
+  if (notes.length > 5000) errors.push("Notes must be 5000 characters or fewer.");
+
+  const rawResourceIds = body?.resourceIds ?? [];
+  if (!Array.isArray(rawResourceIds) || rawResourceIds.some((rid) => typeof rid !== "string" || !ObjectId.isValid(rid))) {
+    errors.push("resourceIds must be an array of resource ids.");
+  }
+
+  const rawTrials = body?.trials ?? [];
+  const trials: GoalTrials[] = [];
+  if (!Array.isArray(rawTrials)) {
+    errors.push("trials must be an array.");
+  } else {
+    rawTrials.forEach((t: any) => {
+      if (typeof t?.goalId !== "string" || !ObjectId.isValid(t.goalId)) {
+        errors.push("Each trial entry needs a valid goalId.");
+      } else if (![t.correct, t.incorrect, t.prompted].every(isTrialCount)) {
+        errors.push(`Trial counts must be whole numbers between 0 and ${MAX_SESSION_TRIALS}.`);
+      } else if (trials.some((existing) => existing.goalId === t.goalId)) {
+        errors.push("Each goal can appear only once per session.");
+      } else if (t.correct + t.incorrect + t.prompted > 0) {
+        trials.push({ goalId: t.goalId, correct: t.correct, incorrect: t.incorrect, prompted: t.prompted });
+      }
+    });
+  }
+
+  const plan = body?.plan ?? undefined;
+  if (plan !== undefined && (typeof plan !== "object" || Array.isArray(plan))) errors.push("plan must be an object.");
+
+  if (errors.length > 0) return { error: Array.from(new Set(errors)).join(" ") };
+  return {
+    date,
+    durationMinutes: durationMinutes ?? undefined,
+    notes: notes || undefined,
+    resourceIds: Array.from(new Set(rawResourceIds as string[])),
+    trials,
+    plan,
+  };
+};
+
+const accuracyOf = (counts: { correct: number; incorrect: number; prompted: number }) => {
+  const total = counts.correct + counts.incorrect + counts.prompted;
+  return { total, accuracy: total > 0 ? counts.correct / total : 0 };
+};
+
+// Per-goal accuracy series in session date order; goals without trials get an empty series
+const buildGoalProgress = (goals: Goal[], sessions: TherapySession[]): GoalProgress[] => {
+  const ordered = [...sessions].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+  return goals.map((goal) => {
+    const points = ordered.flatMap((session) =>
+      session.trials
+        .filter((t) => t.goalId === goal.id)
+        .map((t) => ({
+          sessionId: session.id as string,
+          date: session.date,
+          correct: t.correct,
+          incorrect: t.incorrect,
+          prompted: t.prompted,
+          ...accuracyOf(t),
+        })),
+    );
+    const sums = points.reduce(
+      (acc, p) => ({
+        correct: acc.correct + p.correct,
+        incorrect: acc.incorrect + p.incorrect,
+        prompted: acc.prompted + p.prompted,
+      }),
+      { correct: 0, incorrect: 0, prompted: 0 },
+    );
+    return { goalId: goal.id as string, points, totals: { ...sums, accuracy: accuracyOf(sums).accuracy } };
+  });
+};
+
+// Sessions, per patient
+app.get("/api/patients/:id/sessions", audit("session.list", PATIENT_TARGET), async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid patient id" });
+  }
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+  try {
+    const pCol = await getPatientsCollection();
+    const patient = await pCol.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!patient) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+    const col = await getSessionsCollection();
+    const docs = await col
+      .find({ ownerId: req.user?.sub, patientId: id })
+      .sort({ date: -1, createdAt: -1 })
+      .limit(limit)
+      .toArray();
+    const showNotes = canSeePatientNotes(req);
+    res.json({ data: docs.map(toSession).map((s) => (showNotes ? s : { ...s, notes: undefined })) });
+  } catch (err) {
+    console.error("Failed to fetch sessions", err);
+    res.status(500).json({ error: "Failed to fetch sessions" });
+  }
+});
+
+app.post("/api/patients/:id/sessions", audit("session.create", PATIENT_TARGET), requirePermission("patients:write"), async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid patient id" });
+  }
+  const input = parseSessionInput(req.body);
+  if ("error" in input) {
+    return res.status(400).json({ error: input.error });
+  }
+  try {
+    const pCol = await getPatientsCollection();
+    const patient = await pCol.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!patient) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+
+    const gCol = await getGoalsCollection();
+    const patientGoalIds = new Set(
+      (await gCol.find({ ownerId: req.user?.sub, patientId: id }).project({ _id: 1 }).toArray()).map((g) => g._id.toString()),
+    );
+    if (input.trials.some((t) => !patientGoalIds.has(t.goalId))) {
+      return res.status(400).json({ error: "Trials can only be recorded against this patient's goals." });
+    }
+
+    // A saved plan may point at resources deleted since it was drafted; those references are dropped, not rejected
+    const draftPlan = input.plan
+      ? parseSessionPlan(input.plan, { resourceIds: { has: (rid) => ObjectId.isValid(rid) }, goalIds: patientGoalIds })?.plan
+      : undefined;
+    const lookupIds = Array.from(new Set([...input.resourceIds, ...(draftPlan ? planResourceIds(draftPlan) : [])]));
+
+    const rCol = await getResourcesCollection();
+    const resourceDocs =
+      lookupIds.length > 0
+        ? await rCol
+            .find({
+              _id: { $in: lookupIds.map((rid) => new ObjectId(rid)) as any[] },
+              ...scopeFilter(await getAccessScope(req)),
+            })
+            .project<{ _id: ObjectId; title: string }>({ title: 1 })
+            .toArray()
+        : [];
+    const foundIds = new Set(resourceDocs.map((r) => r._id.toString()));
+    if (input.resourceIds.some((rid) => !foundIds.has(rid))) {
+      return res.status(400).json({ error: "One or more resources were not found." });
+    }
+    const plan = draftPlan && parseSessionPlan(draftPlan, { resourceIds: foundIds, goalIds: patientGoalIds })?.plan;
+    // Only resources the clinician marked as used are recorded on the session
+    const usedDocs = resourceDocs.filter((r) => input.resourceIds.includes(r._id.toString()));
+
+    const newDoc: TherapySession = {
+      patientId: id,
+      date: input.date,
+      durationMinutes: input.durationMinutes,
+      notes: input.notes,
+      resources: usedDocs.map((r) => ({ id: r._id.toString(), title: r.title })),
+      trials: input.trials,
+      ...(plan ? { plan } : {}),
+      ownerId: req.user?.sub,
+      ownerEmail: req.user?.email,
+      createdAt: new Date().toISOString(),
+    };
+    const col = await getSessionsCollection();
+    const result = await col.insertOne(newDoc);
+    res.locals.auditDetails = { sessionId: result.insertedId.toString() };
+
+    // Using a resource in a session counts as using it, same as opening it
+    if (usedDocs.length > 0) {
+      await rCol.updateMany(
+        { _id: { $in: usedDocs.map((r) => r._id) as any[] }, ownerId: req.user?.sub },
+        { $set: { lastUsedAt: new Date().toISOString() } },
+      );
+    }
+
+    res.status(201).json({ data: { ...newDoc, id: result.insertedId.toString(), _id: result.insertedId.toString() } });
+  } catch (err) {
+    console.error("Failed to create session", err);
+    res.status(500).json({ error: "Failed to create session" });
+  }
+});
+
+app.delete("/api/patients/:id/sessions/:sessionId", audit("session.delete", PATIENT_TARGET), requirePermission("patients:write"), async (req: AuthedRequest, res) => {
+  const { id, sessionId } = req.params;
+  if (!ObjectId.isValid(id) || !ObjectId.isValid(sessionId)) {
+    return res.status(400).json({ error: "Invalid patient or session id" });
+  }
+  try {
+    const col = await getSessionsCollection();
+    const result = await col.deleteOne({ _id: new ObjectId(sessionId) as any, patientId: id, ownerId: req.user?.sub });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    res.status(204).send();
+  } catch (err) {
+    console.error("Failed to delete session", err);
+    res.status(500).json({ error: "Failed to delete session" });
+  }
+});
+
+const PLAN_RETRIEVAL_LIMIT = 8;
+const DEFAULT_PLAN_MINUTES = 30;
+
+// Drafts a session plan for the patient's active goals (or the goalIds given) from resources the chat retrieval
+// pipeline finds for them. Nothing is stored; the client saves an edited plan through the sessions route.
+// A plan needs the LLM, so there is no lexical-only version once the user's AI budget is spent.
+app.post("/api/patients/:id/session-plan", audit("session.plan", PATIENT_TARGET), requirePermission("patients:write"), rateLimit(aiRateLimiter), meterAi, async (req: AuthedRequest, res) => {
+  if (!llm.isConfigured) {
+    return res.status(500).json({ error: LLM_NOT_CONFIGURED });
+  }
+  const meter = req.aiMeter as AiMeter;
+  if (meter.lexicalOnly) {
+    return res.status(429).json({ error: AI_BUDGET_EXCEEDED, lexicalOnly: true });
+  }
+  const { goalIds, focus } = req.body || {};
+  const durationMinutes = req.body?.durationMinutes ?? DEFAULT_PLAN_MINUTES;
+  if (!Number.isInteger(durationMinutes) || durationMinutes < 10 || durationMinutes > 180) {
+    return res.status(400).json({ error: "Duration must be a whole number of minutes between 10 and 180." });
+  }
+  if (focus !== undefined && (typeof focus !== "string" || focus.length > 500)) {
+    return res.status(400).json({ error: "Focus must be text of 500 characters or fewer." });
+  }
+  if (goalIds !== undefined && (!Array.isArray(goalIds) || goalIds.some((gid) => typeof gid !== "string"))) {
+    return res.status(400).json({ error: "goalIds must be an array of goal ids." });
+  }
+
+  try {
+    const patient = await findChatPatient(req.params.id, req.user?.sub);
+    if ("error" in patient) {
+      return res.status(patient.status).json({ error: patient.error });
+    }
+    const gCol = await getGoalsCollection();
+    const goalFilter = goalIds
+      ? { _id: { $in: goalIds.filter((gid: string) => ObjectId.isValid(gid)).map((gid: string) => new ObjectId(gid)) } }
+      : { status: "active" };
+    const goalDocs = await gCol
+      .find({ ownerId: req.user?.sub, patientId: patient.id, ...goalFilter } as any)
+      .sort({ createdAt: 1 })
+      .toArray();
+    const goals = goalDocs.map(toGoal);
+
+    const query =
+      [focus?.trim(), ...goals.map((g) => `${g.domain} ${g.target}`), ...(patient.targetSounds || [])]
+        .filter(Boolean)
+        .join(" ") ||
+      [...(patient.diagnoses || []), "speech therapy activities"].join(" ");
+    const redactor = await loadRedactor(req.user?.sub as string);
+    const hits = await hybridRetrieve(query, await getAccessScope(req), {
+      limit: PLAN_RETRIEVAL_LIMIT,
+      meter,
+      redactor,
+      boostPatientId: patient.id,
+    });
+    const resources: Resource[] = hits.map(({ resource, retrieval }) => {
+      const { extractedText, ...rest } = resource;
+      return { ...rest, retrieval };
+    });
+
+    const raw = await llm.complete({
+      task: "plan",
+      messages: redactor.redactMessages(
+        buildSessionPlanMessages({
+          profile: buildPatientPrompt(patient, []),
+          goals,
+          resources,
+          linkedResourceIds: new Set(resources.filter((r) => r.patientIds?.includes(patient.id as string)).map((r) => r.id as string)),
+          durationMinutes,
+          focus: focus?.trim() || undefined,
+        }),
+      ),
+      temperature: 0.4,
+      onUsage: meter.onUsage,
+    });
+    const parsed = parseSessionPlan(raw, {
+      resourceIds: new Set(resources.map((r) => r.id as string)),
+      goalIds: new Set(goals.map((g) => g.id as string)),
+    });
+    if (!parsed) {
+      console.error("Session plan was not valid JSON", raw.slice(0, 500));
+      return res.status(502).json({ error: "The model did not return a usable plan. Please try again." });
+    }
+    // Placeholders are restored after parsing so a restored name cannot break the JSON
+    const plan = Object.fromEntries(
+      Object.entries(parsed.plan).map(([section, steps]) => [
+        section,
+        steps.map((step) => ({ ...step, text: redactor.restore(step.text) })),
+      ]),
+    ) as SessionPlan;
+    res.json({ data: { ...parsed, plan, durationMinutes, goals, resources } });
+  } catch (err) {
+    console.error("Failed to build session plan", err);
+    res.status(500).json({ error: "Failed to build session plan" });
+  }
+});
+
+// Accuracy over time for each of the patient's goals
+app.get("/api/patients/:id/progress", audit("patient.progress", PATIENT_TARGET), async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid patient id" });
+  }
+  try {
+    const pCol = await getPatientsCollection();
+    const patient = await pCol.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!patient) {
       return res.status(404).json({ error: "Patient not found" });
     }
+    const gCol = await getGoalsCollection();
+    const goals = (await gCol.find({ ownerId: req.user?.sub, patientId: id }).sort({ createdAt: 1 }).toArray()).map(toGoal);
+    const col = await getSessionsCollection();
+    const sessions = (await col.find({ ownerId: req.user?.sub, patientId: id, "trials.0": { $exists: true } }).toArray()).map(
+      toSession,
+    );
+    res.json({ data: buildGoalProgress(goals, sessions) });
+  } catch (err) {
+    console.error("Failed to compute progress", err);
+    res.status(500).json({ error: "Failed to compute progress" });
+  }
+});
+
+// Folders CRUD
+app.get("/api/folders", async (req: AuthedRequest, res) => {
+  try {
+    const col = await getFoldersCollection();
+    const docs = await col.find({ ownerId: req.user?.sub }).sort({ createdAt: 1 }).toArray();
+    res.json({ data: docs.map(toFolder) });
+  } catch (err) {
+    console.error("Failed to fetch folders", err);
+    res.status(500).json({ error: "Failed to fetch folders" });
+  }
+});
+
+app.post("/api/folders", requirePermission("resources:write"), async (req: AuthedRequest, res) => {
+  const { name } = req.body;
+  if (!name || typeof name !== "string" || !name.trim()) {
+    return res.status(400).json({ error: "Name is required" });
+  }
+  const newDoc: Folder = {
+    name: name.trim(),
+    ownerId: req.user?.sub,
+    ownerEmail: req.user?.email,
+    createdAt: new Date().toISOString(),
+  };
+  try {
+    const col = await getFoldersCollection();
+    const result = await col.insertOne(newDoc);
+    res.status(201).json({ data: { ...newDoc, id: result.insertedId.toString(), _id: result.insertedId.toString() } });
+  } catch (err) {
+    console.error("Failed to create folder", err);
+    res.status(500).json({ error: "Failed to create folder" });
+  }
+});
+
+// One-time import of folders kept in browser storage before folders moved server-side
+app.post("/api/folders/import", requirePermission("resources:write"), async (req: AuthedRequest, res) => {
+  const { folders = [], assignments = {} } = req.body;
+  if (!Array.isArray(folders) || typeof assignments !== "object" || assignments === null) {
+    return res.status(400).json({ error: "folders must be an array and assignments an object" });
+  }
+  const cleanFolders = folders
+    .filter((f: any) => f && typeof f.id === "string" && typeof f.name === "string" && f.name.trim())
+    .slice(0, 100);
+
+  try {
+    const col = await getFoldersCollection();
+    const rCol = await getResourcesCollection();
+    const idMap: Record<string, string> = {};
+    const created: Folder[] = [];
+
+    for (const f of cleanFolders) {
+      const newDoc: Folder = {
+        name: f.name.trim(),
+        ownerId: req.user?.sub,
+        ownerEmail: req.user?.email,
+        createdAt: new Date().toISOString(),
+      };
+      const result = await col.insertOne(newDoc);
+      idMap[f.id] = result.insertedId.toString();
+      created.push({ ...newDoc, id: result.insertedId.toString(), _id: result.insertedId.toString() });
+    }
+
+    const moved: Record<string, string> = {};
+    for (const [resourceId, localFolderId] of Object.entries(assignments)) {
+      const folderId = typeof localFolderId === "string" ? idMap[localFolderId] : undefined;
+      if (!folderId || !ObjectId.isValid(resourceId)) continue;
+      const result = await rCol.updateOne(
+        { _id: new ObjectId(resourceId) as any, ownerId: req.user?.sub, folder: { $exists: false } },
+        { $set: { folder: folderId } },
+      );
+      if (result.modifiedCount > 0) moved[resourceId] = folderId;
+    }
+
+    res.status(201).json({ data: created, assignments: moved });
+  } catch (err) {
+    console.error("Failed to import folders", err);
+    res.status(500).json({ error: "Failed to import folders" });
+  }
+});
+
+app.put("/api/folders/:id", requirePermission("resources:write"), async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  const { name } = req.body;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid folder id" });
+  }
+  if (!name || typeof name !== "string" || !name.trim()) {
+    return res.status(400).json({ error: "Name is required" });
+  }
+  try {
+    const col = await getFoldersCollection();
+    const existing = await col.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!existing) {
+      return res.status(404).json({ error: "Folder not found" });
+    }
+    await col.updateOne({ _id: new ObjectId(id) as any }, { $set: { name: name.trim() } });
+    const updated = await col.findOne({ _id: new ObjectId(id) as any });
+    res.json({ data: updated ? toFolder(updated) : null });
+  } catch (err) {
+    console.error("Failed to rename folder", err);
+    res.status(500).json({ error: "Failed to rename folder" });
+  }
+});
+
+app.delete("/api/folders/:id", requirePermission("resources:write"), async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid folder id" });
+  }
+  try {
+    const col = await getFoldersCollection();
+    const existing = await col.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!existing) {
+      return res.status(404).json({ error: "Folder not found" });
+    }
     await col.deleteOne({ _id: new ObjectId(id) as any });
 
-    // Remove patient from resources
+    // Resources in a deleted folder fall back to unsorted
+    const rCol = await getResourcesCollection();
+    await rCol.updateMany({ ownerId: req.user?.sub, folder: id }, { $unset: { folder: "" } });
+
+    res.status(204).send();
+  } catch (err) {
+    console.error("Failed to delete folder", err);
+    res.status(500).json({ error: "Failed to delete folder" });
+  }
+});
+
+// Move a resource into a folder
+app.put("/api/folders/:id/resources/:resourceId", requirePermission("resources:write"), async (req: AuthedRequest, res) => {
+  const { id, resourceId } = req.params;
+  if (!ObjectId.isValid(id) || !ObjectId.isValid(resourceId)) {
+    return res.status(400).json({ error: "Invalid folder or resource id" });
+  }
+  try {
+    const col = await getFoldersCollection();
+    const folder = await col.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!folder) {
+      return res.status(404).json({ error: "Folder not found" });
+    }
+    const rCol = await getResourcesCollection();
+    const existing = await rCol.findOne({ _id: new ObjectId(resourceId) as any, ownerId: req.user?.sub });
+    if (!existing) {
+      return res.status(404).json({ error: "Resource not found" });
+    }
+    await rCol.updateOne({ _id: new ObjectId(resourceId) as any }, { $set: { folder: id } });
+    const updated = await rCol.findOne({ _id: new ObjectId(resourceId) as any });
+    res.json({ data: updated ? toResource(updated) : null });
+  } catch (err) {
+    console.error("Failed to move resource", err);
+    res.status(500).json({ error: "Failed to move resource" });
+  }
+});
+
+// Remove a resource from its folder (back to unsorted)
+app.delete("/api/folders/:id/resources/:resourceId", requirePermission("resources:write"), async (req: AuthedRequest, res) => {
+  const { id, resourceId } = req.params;
+  if (!ObjectId.isValid(id) || !ObjectId.isValid(resourceId)) {
+    return res.status(400).json({ error: "Invalid folder or resource id" });
+  }
+  try {
     const rCol = await getResourcesCollection();
-    await rCol.updateMany({ ownerId: req.user?.sub }, { $pull: { patientIds: id } });
-
-    res.status(204).send();
+    const existing = await rCol.findOne({ _id: new ObjectId(resourceId) as any, ownerId: req.user?.sub, folder: id });
+    if (!existing) {
+      return res.status(404).json({ error: "Resource not found in folder" });
+    }
+    await rCol.updateOne({ _id: new ObjectId(resourceId) as any }, { $unset: { folder: "" } });
+    const updated = await rCol.findOne({ _id: new ObjectId(resourceId) as any });
+    res.json({ data: updated ? toResource(updated) : null });
   } catch (err) {
-    console.error("Failed to delete patient", err);
-    res.status(500).json({ error: "Failed to delete patient" });
+    console.error("Failed to remove resource from folder", err);
+    res.status(500).json({ error: "Failed to remove resource from folder" });
   }
 });
 
-// Fetch all resources (MongoDB)
+// Fetch resources one page at a time (cursor-based)
 app.get("/api/resources", async (req: AuthedRequest, res) => {
+  const sortParam = typeof req.query.sort === "string" ? req.query.sort : "created";
+  if (!(sortParam in RESOURCE_SORTS)) {
+    return res.status(400).json({ error: "sort must be one of created, title, type, recent" });
+  }
+  const sort = RESOURCE_SORTS[sortParam as ResourceSort];
+  const limit = Math.min(Math.max(Number(req.query.limit) || 30, 1), 100);
+
+  const cursor = typeof req.query.cursor === "string" && req.query.cursor ? decodeCursor(req.query.cursor) : undefined;
+  if (cursor === null) {
+    return res.status(400).json({ error: "Invalid cursor" });
+  }
+
+  const filter: Record<string, unknown> = scopeFilter(await getAccessScope(req));
+  const folder = typeof req.query.folder === "string" ? req.query.folder : undefined;
+  if (folder === "unsorted") {
+    filter.folder = null;
+  } else if (folder && folder !== "all") {
+    filter.folder = folder;
+  }
+
+  const op = sort.direction === 1 ? "$gt" : "$lt";
+  const cursorMatch = cursor
+    ? [
+        {
+          $match: {
+            $or: [
+              { sortKey: { [op]: cursor.k } },
+              { sortKey: cursor.k, _id: { [op]: new ObjectId(cursor.id) } },
+            ],
+          },
+        },
+      ]
+    : [];
+
   try {
     const col = await getResourcesCollection();
-    const docs = await col.find({ ownerId: req.user?.sub }).sort({ createdAt: -1 }).limit(200).toArray();
-    res.json({ data: docs.map(toResource) });
+    const [docs, total] = await Promise.all([
+      col
+        .aggregate([
+          { $match: filter },
+          { $addFields: { sortKey: sort.key } },
+          ...cursorMatch,
+          { $sort: { sortKey: sort.direction, _id: sort.direction } },
+          { $limit: limit + 1 },
+          { $project: { extractedText: 0, embedding: 0 } },
+        ])
+        .toArray(),
+      col.countDocuments(filter),
+    ]);
+
+    const page = docs.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor = docs.length > limit && last ? encodeCursor(last.sortKey, last._id.toString()) : null;
+    res.json({ data: page.map((doc) => forViewer(toResource(doc), req.user?.sub)), nextCursor, total });
   } catch (err) {
     console.error("Failed to fetch resources", err);
     res.status(500).json({ error: "Failed to fetch resources" });
   }
 });
 
+// Resource counts for the library sidebar (all, unsorted, per folder)
+app.get("/api/resources/counts", async (req: AuthedRequest, res) => {
+  try {
+    const col = await getResourcesCollection();
+    const groups = await col
+      .aggregate<{ _id: string | null; count: number }>([
+        { $match: scopeFilter(await getAccessScope(req)) },
+        { $group: { _id: { $ifNull: ["$folder", null] }, count: { $sum: 1 } } },
+      ])
+      .toArray();
+    const folders: Record<string, number> = {};
+    let unsorted = 0;
+    let total = 0;
+    groups.forEach((g) => {
+      total += g.count;
+      if (g._id) folders[g._id] = g.count;
+      else unsorted += g.count;
+    });
+    res.json({ data: { total, unsorted, folders } });
+  } catch (err) {
+    console.error("Failed to count resources", err);
+    res.status(500).json({ error: "Failed to count resources" });
+  }
+});
+
 // Create resource
-app.post("/api/upload", async (req: AuthedRequest, res: Response) => {
+app.post("/api/upload", requirePermission("resources:write"), meterAi, async (req: AuthedRequest, res: Response) => {
   const { title, description, url, tags = [], ageRange, type, uploadedBy, fileId } = req.body;
 
   if (!title || !description) {
@@ -429,12 +2796,31 @@ app.post("/api/upload", async (req: AuthedRequest, res: Response) => {
 
   try {
     const col = await getResourcesCollection();
+    if (fileId) {
+      newDoc.extractedText = await getFileText(fileId, req.user?.sub);
+    }
     const embText = buildEmbeddingText(newDoc);
-    const embedding = await getEmbedding(embText);
+    const embedding = await getEmbedding(embText, req.aiMeter as AiMeter);
     if (embedding) {
       newDoc.embedding = embedding;
+      newDoc.embeddingModel = embeddingProvider.model;
     }
     const result = await col.insertOne(newDoc);
+    if (newDoc.embedding) {
+      await upsertLocalVector(result.insertedId.toString(), { ownerId: newDoc.ownerId }, newDoc.embedding);
+    }
+    if (newDoc.extractedText) {
+      try {
+        await indexResourceChunks(
+          result.insertedId.toString(),
+          { ownerId: newDoc.ownerId },
+          newDoc.extractedText,
+          req.aiMeter as AiMeter,
+        );
+      } catch (chunkErr) {
+        console.error("Failed to index passages; the embedding backfill will retry", chunkErr);
+      }
+    }
     return res.status(201).json({ data: { ...newDoc, id: result.insertedId.toString(), _id: result.insertedId.toString() } });
   } catch (err) {
     console.error("Failed to save resource", err);
@@ -443,9 +2829,9 @@ app.post("/api/upload", async (req: AuthedRequest, res: Response) => {
 });
 
 // Update existing resource
-app.put("/api/resources/:id", async (req: AuthedRequest, res: Response) => {
+app.put("/api/resources/:id", requirePermission("resources:write"), meterAi, async (req: AuthedRequest, res: Response) => {
   const { id } = req.params;
-  const { title, description, url, tags, ageRange, type, uploadedBy, fileId, patientIds } = req.body;
+  const { title, description, url, tags, ageRange, type, uploadedBy, fileId } = req.body;
 
   if (!ObjectId.isValid(id)) {
     return res.status(400).json({ error: "Invalid resource id" });
@@ -481,16 +2867,37 @@ app.put("/api/resources/:id", async (req: AuthedRequest, res: Response) => {
       ageRange: ageRange ?? existing.ageRange,
       type: type ?? existing.type,
       uploadedBy: uploadedBy ?? existing.uploadedBy ?? req.user?.email,
-      patientIds: Array.isArray(patientIds) ? patientIds.filter((p: string) => typeof p === "string") : existing.patientIds || [],
     };
 
+    if (updateDoc.fileId !== existing.fileId || !existing.extractedText) {
+      updateDoc.extractedText = updateDoc.fileId ? (await getFileText(updateDoc.fileId, req.user?.sub)) ?? "" : "";
+    }
+
+    const meter = req.aiMeter as AiMeter;
     const embText = buildEmbeddingText({ ...existing, ...updateDoc });
-    const embedding = await getEmbedding(embText);
+    const embedding = await getEmbedding(embText, meter);
     if (embedding) {
       updateDoc.embedding = embedding;
+      updateDoc.embeddingModel = embeddingProvider.model;
     }
 
-    await col.updateOne({ _id: new ObjectId(id) as any }, { $set: updateDoc });
+    // Over budget the old embedding no longer matches the text; dropping it queues the resource for the backfill
+    await col.updateOne(
+      { _id: new ObjectId(id) as any },
+      meter.lexicalOnly ? { $set: updateDoc, $unset: { embedding: "", embeddingModel: "" } } : { $set: updateDoc },
+    );
+    if (updateDoc.embedding) {
+      await upsertLocalVector(id, { ownerId: existing.ownerId, teamId: existing.teamId }, updateDoc.embedding);
+    } else if (meter.lexicalOnly) {
+      await removeLocalVector(id);
+    }
+    if (updateDoc.extractedText !== undefined) {
+      try {
+        await indexResourceChunks(id, { ownerId: existing.ownerId, teamId: existing.teamId }, updateDoc.extractedText, meter);
+      } catch (chunkErr) {
+        console.error("Failed to index passages; the embedding backfill will retry", chunkErr);
+      }
+    }
     const updated = await col.findOne({ _id: new ObjectId(id) as any });
     return res.json({ data: updated ? toResource(updated) : null });
   } catch (err) {
@@ -499,8 +2906,47 @@ app.put("/api/resources/:id", async (req: AuthedRequest, res: Response) => {
   }
 });
 
+// Share a resource with one of the caller's teams (teamId), or make it private again (teamId: null)
+app.put("/api/resources/:id/sharing", requirePermission("resources:write"), async (req: AuthedRequest, res: Response) => {
+  const { id } = req.params;
+  const teamId = req.body?.teamId ?? null;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid resource id" });
+  }
+  if (teamId !== null && (typeof teamId !== "string" || !ObjectId.isValid(teamId))) {
+    return res.status(400).json({ error: "teamId must be a team id or null" });
+  }
+  try {
+    const col = await getResourcesCollection();
+    const existing = await col.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!existing) {
+      return res.status(404).json({ error: "Resource not found" });
+    }
+    if (teamId && !(await getAccessScope(req)).teamIds.includes(teamId)) {
+      return res.status(404).json({ error: "Team not found" });
+    }
+    await setResourcesTeam([id], teamId ?? undefined);
+    const updated = await col.findOne({ _id: new ObjectId(id) as any });
+    res.json({ data: updated ? toResource(updated) : null });
+  } catch (err) {
+    console.error("Failed to update resource sharing", err);
+    res.status(500).json({ error: "Failed to update resource sharing" });
+  }
+});
+
 // Assign/unassign patients to a resource
-app.put("/api/resources/:id/patients", async (req: AuthedRequest, res: Response) => {
+// True when every id is one of the owner's patients
+const ownsPatients = async (patientIds: string[], ownerId?: string) => {
+  if (patientIds.length === 0) return true;
+  if (!patientIds.every((pid) => ObjectId.isValid(pid))) return false;
+  const pCol = await getPatientsCollection();
+  const unique = Array.from(new Set(patientIds));
+  const count = await pCol.countDocuments({ _id: { $in: unique.map((pid) => new ObjectId(pid)) as any[] }, ownerId });
+  return count === unique.length;
+};
+
+// Patient links are changed only here, so they need patients:write and are audited
+app.put("/api/resources/:id/patients", audit("resource.patients", { type: "resource", param: "id" }, (req) => ({ patientIds: req.body?.patientIds })), requirePermission("patients:write"), async (req: AuthedRequest, res: Response) => {
   const { id } = req.params;
   const { patientIds = [] } = req.body;
   if (!ObjectId.isValid(id)) {
@@ -516,7 +2962,21 @@ app.put("/api/resources/:id/patients", async (req: AuthedRequest, res: Response)
     if (!existing) {
       return res.status(404).json({ error: "Resource not found" });
     }
-    await col.updateOne({ _id: new ObjectId(id) as any }, { $set: { patientIds: cleanIds } });
+    if (!(await ownsPatients(cleanIds, req.user?.sub))) {
+      return res.status(400).json({ error: "patientIds must be your own patients" });
+    }
+    // Goal links only make sense while the goal's patient is still linked
+    let goalIds = existing.goalIds || [];
+    if (goalIds.length > 0) {
+      const gCol = await getGoalsCollection();
+      const objectIds = goalIds.filter((g) => ObjectId.isValid(g)).map((g) => new ObjectId(g));
+      const kept = await gCol
+        .find({ _id: { $in: objectIds as any[] }, patientId: { $in: cleanIds } })
+        .project({ _id: 1 })
+        .toArray();
+      goalIds = kept.map((g) => g._id.toString());
+    }
+    await col.updateOne({ _id: new ObjectId(id) as any }, { $set: { patientIds: cleanIds, goalIds } });
     const updated = await col.findOne({ _id: new ObjectId(id) as any });
     res.json({ data: updated ? toResource(updated) : null });
   } catch (err) {
@@ -525,8 +2985,30 @@ app.put("/api/resources/:id/patients", async (req: AuthedRequest, res: Response)
   }
 });
 
+// Mark a resource as used (e.g. an external link was opened) for "recently used" sorting
+app.post("/api/resources/:id/used", async (req: AuthedRequest, res: Response) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid resource id" });
+  }
+  try {
+    const col = await getResourcesCollection();
+    const result = await col.updateOne(
+      { _id: new ObjectId(id) as any, ownerId: req.user?.sub },
+      { $set: { lastUsedAt: new Date().toISOString() } },
+    );
+    if (result.matchedCount === 0) {
+      return res.status(404).json({ error: "Resource not found" });
+    }
+    return res.status(204).send();
+  } catch (err) {
+    console.error("Failed to mark resource used", err);
+    return res.status(500).json({ error: "Failed to mark resource used" });
+  }
+});
+
 // Delete resource (and associated file if present)
-app.delete("/api/resources/:id", async (req: AuthedRequest, res: Response) => {
+app.delete("/api/resources/:id", requirePermission("resources:write"), async (req: AuthedRequest, res: Response) => {
   const { id } = req.params;
   if (!ObjectId.isValid(id)) {
     return res.status(400).json({ error: "Invalid resource id" });
@@ -540,6 +3022,8 @@ app.delete("/api/resources/:id", async (req: AuthedRequest, res: Response) => {
     }
 
     await col.deleteOne({ _id: new ObjectId(id) as any });
+    await removeLocalVector(id);
+    await removeResourceChunks(id);
 
     if (existing.fileId && ObjectId.isValid(existing.fileId)) {
       try {
@@ -557,8 +3041,8 @@ app.delete("/api/resources/:id", async (req: AuthedRequest, res: Response) => {
   }
 });
 
-// File metadata upload (no parsing, just returns basic info)
-app.post("/api/upload-file", upload.single("file"), async (req: AuthedRequest, res: Response) => {
+// File upload: stores the file in GridFS, extracts and persists its text, and suggests metadata
+app.post("/api/upload-file", requirePermission("resources:write"), rateLimit(aiRateLimiter), meterAi, upload.single("file"), async (req: AuthedRequest, res: Response) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: "No file provided." });
@@ -586,7 +3070,13 @@ app.post("/api/upload-file", upload.single("file"), async (req: AuthedRequest, r
 
     try {
       extractedText = await extractTextFromFile(mimetype, buffer);
-      suggested = await suggestFromContent(originalname, extractedText);
+      await saveFileText(fileId, extractedText, { filename: originalname, mimetype, ownerId: req.user?.sub });
+      suggested = await suggestFromContent(
+        originalname,
+        extractedText,
+        await loadRedactor(req.user?.sub as string),
+        req.aiMeter as AiMeter,
+      );
     } catch (err) {
       console.error("Content extraction/suggestion failed", err);
     }
@@ -609,17 +3099,21 @@ app.post("/api/upload-file", upload.single("file"), async (req: AuthedRequest, r
 });
 
 // Download a stored file from GridFS
-app.get("/api/files/:id", async (req: AuthedRequest, res: Response) => {
+app.get("/api/files/:id", audit("file.download", { type: "file", param: "id" }), async (req: AuthedRequest, res: Response) => {
   try {
     const { id } = req.params;
     if (!ObjectId.isValid(id)) {
       return res.status(400).json({ error: "Invalid file id" });
     }
     const col = await getResourcesCollection();
-    const ownedResource = await col.findOne({ fileId: id, ownerId: req.user?.sub });
-    if (!ownedResource) {
+    const resource = await col.findOne({ fileId: id, ...scopeFilter(await getAccessScope(req)) });
+    if (!resource) {
       return res.status(404).json({ error: "File not found" });
     }
+    // Only the owner's own use counts towards their recently-used order
+    if (resource.ownerId === req.user?.sub) {
+      await col.updateOne({ _id: resource._id }, { $set: { lastUsedAt: new Date().toISOString() } });
+    }
     const bucket = await getUploadsBucket();
     const downloadStream = bucket.openDownloadStream(new ObjectId(id));
 
@@ -640,113 +3134,694 @@ app.get("/api/files/:id", async (req: AuthedRequest, res: Response) => {
   }
 });
 
-// Chat endpoint with Mongo-backed retrieval
-app.post("/api/chat", async (req: AuthedRequest, res: Response) => {
-  const { message, history = [] }: { message: string; history?: ChatMessage[] } = req.body;
+type RankedHit = { resource: Resource; score: number };
+type FusedHit = { resource: Resource; retrieval: RetrievalDebug };
+
+const fuseRankings = (lists: Record<RetrieverName, RankedHit[]>): FusedHit[] => {
+  const fused = new Map<string, FusedHit>();
+  (Object.keys(lists) as RetrieverName[]).forEach((name) => {
+    lists[name].forEach((hit, idx) => {
+      const id = hit.resource.id as string;
+      const contribution = RETRIEVAL_WEIGHTS[name] / (RETRIEVAL_WEIGHTS.k + idx + 1);
+      const entry = fused.get(id) ?? { resource: hit.resource, retrieval: { score: 0 } };
+      entry.retrieval[name] = { rank: idx + 1, score: hit.score, contribution };
+      entry.retrieval.score += contribution;
+      fused.set(id, entry);
+    });
+  });
+  return Array.from(fused.values()).sort((a, b) => b.retrieval.score - a.retrieval.score);
+};
 
-  if (!message) {
-    return res.status(400).json({ error: "Message is required." });
+// Runs lexical and vector retrieval side by side and fuses their rankings. `match` narrows both retrievers;
+// `boostPatientId` lifts resources linked to that patient, drawing from a wider pool so they can move up.
+// A lexical-only meter skips the query embedding, leaving the lexical ranking alone.
+const hybridRetrieve = async (
+  query: string,
+  scope: AccessScope,
+  options: { limit: number; meter: AiMeter; redactor: Redactor; match?: Record<string, unknown>; boostPatientId?: string },
+): Promise<FusedHit[]> => {
+  // The embeddings provider and the database only ever see the query with patient identifiers removed
+  const outboundQuery = options.redactor.stripIdentifiers(query);
+  if (!outboundQuery) return [];
+  const poolLimit = options.boostPatientId ? options.limit * 3 : options.limit;
+  // Whole-resource and passage embeddings both feed the vector ranking; each resource keeps its better score,
+  // so short resources without text still rank while long documents are matched on their best passage.
+  const runVector = async (): Promise<RankedHit[]> => {
+    try {
+      const queryEmbedding = await getEmbedding(outboundQuery, options.meter);
+      if (!queryEmbedding) return [];
+      const searchOptions = {
+        limit: poolLimit,
+        numCandidates: Math.max(poolLimit * 10, 50),
+        match: options.match,
+      };
+      const [resourceHits, passageHits] = await Promise.all([
+        vectorSearch(queryEmbedding, scope, searchOptions),
+        chunkVectorSearch(queryEmbedding, scope, searchOptions).catch((chunkErr) => {
+          console.error("Passage search failed, using whole-resource embeddings only", chunkErr);
+          return [] as RankedHit[];
+        }),
+      ]);
+      const merged = new Map<string, RankedHit>();
+      [...passageHits, ...resourceHits].forEach((hit) => {
+        const id = hit.resource.id as string;
+        const current = merged.get(id);
+        if (!current) {
+          merged.set(id, hit);
+        } else if (hit.score > current.score) {
+          merged.set(id, { resource: { ...hit.resource, passage: current.resource.passage }, score: hit.score });
+        }
+      });
+      return Array.from(merged.values())
+        .sort((a, b) => b.score - a.score)
+        .slice(0, poolLimit);
+    } catch (vectorErr) {
+      console.error("Vector search failed, using lexical results only", vectorErr);
+      return [];
+    }
+  };
+
+  const [vector, lexical] = await Promise.all([
+    runVector(),
+    lexicalSearch(outboundQuery, options.match ?? scopeFilter(scope), poolLimit),
+  ]);
+  let fused = fuseRankings({ vector, lexical });
+  if (options.boostPatientId) {
+    const patientId = options.boostPatientId;
+    fused = fused
+      .map((hit) =>
+        hit.resource.patientIds?.includes(patientId)
+          ? {
+              ...hit,
+              retrieval: {
+                ...hit.retrieval,
+                score: hit.retrieval.score + PATIENT_LINK_BOOST,
+                patientBoost: PATIENT_LINK_BOOST,
+              },
+            }
+          : hit,
+      )
+      .sort((a, b) => b.retrieval.score - a.retrieval.score);
   }
+  return fused
+    .slice(0, options.limit)
+    .map((hit) => {
+      // Lexical-only hits get the passage sharing the most query terms
+      const passage = hit.resource.passage ?? bestLexicalPassage(query, hit.resource.extractedText);
+      const resource = forViewer(hit.resource, scope.ownerId);
+      return { ...hit, resource: passage ? { ...resource, passage } : resource };
+    });
+};
 
-  if (!process.env.OPENAI_API_KEY) {
-    return res
-      .status(500)
-      .json({ error: "OPENAI_API_KEY missing. Add it to your environment variables." });
+// Structured filters shared by the search endpoint; values come straight from the query string.
+const buildSearchFilter = (req: AuthedRequest, scope: AccessScope): Record<string, unknown> => {
+  const { type, ageRange, tags, patientId, folder } = req.query;
+  const filter: Record<string, unknown> = scopeFilter(scope);
+  if (typeof type === "string" && type.trim()) {
+    filter.type = { $regex: `^${escapeRegex(type.trim())}$`, $options: "i" };
+  }
+  if (typeof ageRange === "string" && ageRange.trim()) {
+    filter.ageRange = { $regex: `^${escapeRegex(ageRange.trim())}$`, $options: "i" };
+  }
+  if (typeof tags === "string" && tags.trim()) {
+    const tagList = tags
+      .split(",")
+      .map((t) => t.trim())
+      .filter(Boolean);
+    if (tagList.length > 0) filter.tags = { $all: tagList };
+  }
+  if (typeof patientId === "string" && patientId) {
+    filter.patientIds = patientId;
+  }
+  if (folder === "unsorted") {
+    filter.folder = null;
+  } else if (typeof folder === "string" && folder && folder !== "all") {
+    filter.folder = folder;
+  }
+  return filter;
+};
+
+// Hybrid search: vector similarity and lexical scoring fused by rank, with structured filters
+app.get("/api/search", meterAi, async (req: AuthedRequest, res: Response) => {
+  const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 50);
+  const scope = await getAccessScope(req);
+  const filter = buildSearchFilter(req, scope);
+  const hasFilters = Object.keys(filter).length > 1;
+
+  if (!q && !hasFilters) {
+    return res.status(400).json({ error: "Provide a query (q) or at least one filter." });
   }
 
   try {
-    const col = await getResourcesCollection();
-    const docs = await col.find({ ownerId: req.user?.sub }).limit(200).toArray();
-    const resources = docs.map(toResource);
+    // Filters only: nothing to rank, so list the newest matches
+    if (!q) {
+      const col = await getResourcesCollection();
+      const docs = await col.find(filter).project({ embedding: 0 }).sort({ createdAt: -1 }).limit(limit).toArray();
+      const data: SearchResult[] = docs.map((doc) => ({ ...forViewer(toResource(doc), scope.ownerId), score: 0, highlights: [] }));
+      return res.json({ data });
+    }
 
-    let topMatches: Resource[] = [];
+    const meter = req.aiMeter as AiMeter;
+    const redactor = await loadRedactor(req.user?.sub as string);
+    const hits = await hybridRetrieve(q, scope, { limit, meter, redactor, match: filter });
+    const data: SearchResult[] = hits.map(({ resource, retrieval }) => {
+      const { extractedText, ...rest } = resource;
+      return {
+        ...rest,
+        score: retrieval.score,
+        vectorScore: retrieval.vector?.score,
+        lexicalScore: retrieval.lexical?.score,
+        retrieval,
+        highlights: buildHighlights(q, resource),
+      };
+    });
 
-    // Try vector search first if we have embeddings
-    try {
-      const queryEmbedding = await getEmbedding(message);
-      if (queryEmbedding) {
-        const vectorResults = await col
-          .aggregate([
-            {
-              $vectorSearch: {
-                index: "resource_embedding_index",
-                path: "embedding",
-                queryVector: queryEmbedding,
-                numCandidates: 50,
-                limit: 10,
-                filter: { ownerId: req.user?.sub },
-              },
-            },
-          ])
-          .toArray();
-        if (vectorResults.length > 0) {
-          topMatches = vectorResults.map((r: any) => toResource(r));
-        }
+    return res.json({ data, ...(meter.lexicalOnly ? { lexicalOnly: true } : {}) });
+  } catch (err) {
+    console.error("Search failed", err);
+    return res.status(500).json({ error: "Search failed" });
+  }
+});
+
+const DEFAULT_CONVERSATION_TITLE = "New conversation";
+
+// Conversations CRUD; the list omits messages, which are loaded per conversation
+app.get("/api/conversations", async (req: AuthedRequest, res) => {
+  try {
+    const col = await getConversationsCollection();
+    const docs = await col
+      .aggregate([
+        { $match: { ownerId: req.user?.sub } },
+        { $sort: { updatedAt: -1 } },
+        {
+          $project: {
+            title: 1,
+            patientId: 1,
+            createdAt: 1,
+            updatedAt: 1,
+            messageCount: { $size: { $ifNull: ["$messages", []] } },
+          },
+        },
+      ])
+      .toArray();
+    res.json({
+      data: docs.map((doc) => {
+        const { messages, ...rest } = toConversation(doc);
+        return { ...rest, messageCount: doc.messageCount };
+      }),
+    });
+  } catch (err) {
+    console.error("Failed to fetch conversations", err);
+    res.status(500).json({ error: "Failed to fetch conversations" });
+  }
+});
+
+app.post("/api/conversations", audit("patient.conversation", CHAT_PATIENT_TARGET), requirePermission("chat"), async (req: AuthedRequest, res) => {
+  const { title, patientId } = req.body || {};
+  if (typeof patientId === "string" && patientId) res.locals.auditTargetId = patientId;
+  if (title !== undefined && typeof title !== "string") {
+    return res.status(400).json({ error: "Title must be a string" });
+  }
+  const now = new Date().toISOString();
+  const newDoc: Conversation = {
+    title: title?.trim() || DEFAULT_CONVERSATION_TITLE,
+    ...(isBlank(patientId) ? {} : { patientId }),
+    messages: [],
+    ownerId: req.user?.sub,
+    ownerEmail: req.user?.email,
+    createdAt: now,
+    updatedAt: now,
+  };
+  if (!isBlank(patientId) && !canSeePatientNotes(req)) {
+    return res.status(403).json({ error: "Your role does not allow patient chats" });
+  }
+  try {
+    if (!isBlank(patientId)) {
+      const patient = await findChatPatient(patientId, req.user?.sub);
+      if ("error" in patient) {
+        return res.status(patient.status).json({ error: patient.error });
       }
-    } catch (vectorErr) {
-      console.error("Vector search failed, falling back to lexical", vectorErr);
     }
+    const col = await getConversationsCollection();
+    const result = await col.insertOne(newDoc);
+    res.status(201).json({ data: { ...newDoc, id: result.insertedId.toString(), _id: result.insertedId.toString() } });
+  } catch (err) {
+    console.error("Failed to create conversation", err);
+    res.status(500).json({ error: "Failed to create conversation" });
+  }
+});
+
+app.get("/api/conversations/:id", async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid conversation id" });
+  }
+  try {
+    const col = await getConversationsCollection();
+    const doc = await col.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!doc) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+    res.json({ data: toConversation(doc) });
+  } catch (err) {
+    console.error("Failed to fetch conversation", err);
+    res.status(500).json({ error: "Failed to fetch conversation" });
+  }
+});
 
-    if (topMatches.length === 0) {
-      topMatches = scoreResources(message, resources);
+app.put("/api/conversations/:id", requirePermission("chat"), async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  const { title } = req.body;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid conversation id" });
+  }
+  if (!title || typeof title !== "string" || !title.trim()) {
+    return res.status(400).json({ error: "Title is required" });
+  }
+  try {
+    const col = await getConversationsCollection();
+    const existing = await col.findOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (!existing) {
+      return res.status(404).json({ error: "Conversation not found" });
     }
+    await col.updateOne({ _id: new ObjectId(id) as any }, { $set: { title: title.trim() } });
+    const updated = await col.findOne({ _id: new ObjectId(id) as any });
+    res.json({ data: updated ? toConversation(updated) : null });
+  } catch (err) {
+    console.error("Failed to rename conversation", err);
+    res.status(500).json({ error: "Failed to rename conversation" });
+  }
+});
 
-    const resourceContext =
-      topMatches.length > 0
-        ? topMatches
-            .map(
-              (r, idx) =>
-                `${idx + 1}. ${r.title} - ${r.description} (type: ${r.type || "resource"}, tags: ${r.tags.join(", ")})`,
-            )
-            .join("\n")
-        : "No matching resources in the library.";
+app.delete("/api/conversations/:id", requirePermission("chat"), async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    return res.status(400).json({ error: "Invalid conversation id" });
+  }
+  try {
+    const col = await getConversationsCollection();
+    const result = await col.deleteOne({ _id: new ObjectId(id) as any, ownerId: req.user?.sub });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+    res.status(204).send();
+  } catch (err) {
+    console.error("Failed to delete conversation", err);
+    res.status(500).json({ error: "Failed to delete conversation" });
+  }
+});
 
-    const systemPrompt =
-      "You are a speech pathology resource assistant. Recommend specific resources from the provided list when relevant. " +
-      "If nothing is relevant, say so and suggest what to upload or search for next. Keep answers concise, actionable, " +
-      "and focused on speech pathology practice.";
+const CHAT_RETRIEVAL_LIMIT = 10;
+const CHAT_PASSAGE_CHARS = 500;
+// Most recent stored messages replayed to the model when continuing a conversation
+const CHAT_HISTORY_LIMIT = 20;
+
+const CHAT_SYSTEM_PROMPT =
+  "You are a speech pathology resource assistant. Recommend specific resources from the provided list when relevant. " +
+  "If nothing is relevant, say so and suggest what to upload or search for next. Keep answers concise, actionable, " +
+  "and focused on speech pathology practice.";
+
+const MODALITY_LABELS: Record<CommunicationModality, string> = {
+  verbal: "verbal speech",
+  aac: "AAC",
+  sign: "sign",
+  mixed: "mixed (speech plus AAC or sign)",
+};
 
-    const messages: ChatMessage[] = [
-      { role: "system", content: systemPrompt },
-      ...history,
-      {
-        role: "user",
-        content:
-          `User question: ${message}\n\nRelevant resources:\n${resourceContext}\n\n` +
-          "When suggesting resources, include the title; no links needed.",
+const buildPatientPrompt = (patient: Patient, goals: Goal[]) =>
+  [
+    "The clinician is planning for one patient; tailor recommendations to their profile.",
+    `Patient: ${patient.name}${patient.status === "discharged" ? " (discharged)" : ""}`,
+    patient.age !== undefined ? `Age: ${patient.age}` : "",
+    patient.diagnoses?.length ? `Diagnoses: ${patient.diagnoses.join(", ")}` : "",
+    patient.targetSounds?.length ? `Target sounds: ${patient.targetSounds.join(", ")}` : "",
+    patient.communicationModality ? `Communication: ${MODALITY_LABELS[patient.communicationModality]}` : "",
+    `Notes: ${patient.notes?.trim() || "none recorded"}`,
+    goals.length > 0
+      ? `Active goals:\n${goals.map((g) => `- ${g.domain}: ${g.target} (criterion: ${g.criterion})`).join("\n")}`
+      : "",
+    "Resources marked (linked to patient) are already assigned to them; prefer new material only when it fits better.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+const LLM_NOT_CONFIGURED = "No LLM provider configured. Set OPENAI_API_KEY, or LLM_PROVIDER=local/mock.";
+
+// Retrieval and prompt assembly shared by the JSON and streaming chat endpoints
+const prepareChat = async (
+  message: string,
+  context: ChatContext,
+  scope: AccessScope,
+  meter: AiMeter,
+  redactor: Redactor,
+) => {
+  const { history, patient, goals = [] } = context;
+  // Vector and lexical retrieval both run; exact tag hits survive even when embeddings return fuzzy neighbours
+  const hits = await hybridRetrieve(message, scope, {
+    limit: CHAT_RETRIEVAL_LIMIT,
+    meter,
+    redactor,
+    boostPatientId: patient?.id,
+  });
+  const topMatches: Resource[] = hits.map(({ resource, retrieval }) => {
+    const { extractedText, ...rest } = resource;
+    return { ...rest, retrieval };
+  });
+
+  const resourceContext =
+    topMatches.length > 0
+      ? topMatches
+          .map(
+            (r, idx) =>
+              `${idx + 1}. ${r.title} - ${r.description} (type: ${r.type || "resource"}, tags: ${r.tags.join(", ")})` +
+              (patient && r.patientIds?.includes(patient.id as string) ? " (linked to patient)" : "") +
+              (r.passage
+                ? `\n   Passage${r.passage.page ? ` (page ${r.passage.page})` : ""}: ${r.passage.text
+                    .replace(/\s+/g, " ")
+                    .slice(0, CHAT_PASSAGE_CHARS)}`
+                : ""),
+          )
+          .join("\n")
+      : "No matching resources in the library.";
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: CHAT_SYSTEM_PROMPT },
+    ...(patient ? [{ role: "system" as const, content: buildPatientPrompt(patient, goals) }] : []),
+    ...history,
+    {
+      role: "user",
+      content:
+        `User question: ${message}\n\nRelevant resources:\n${resourceContext}\n\n` +
+        "When suggesting a resource, write its title in bold followed by its number from the list above, " +
+        "for example **Minimal Pairs Cards** [2]. Only cite resources from that list; no links needed.",
+    },
+  ];
+
+  return { topMatches, messages };
+};
+
+type ChatContext = { history: ChatMessage[]; conversation?: Conversation; patient?: Patient; goals?: Goal[] };
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === "";
+
+// Owner-checked patient lookup for patient-scoped chats
+const findChatPatient = async (patientId: unknown, ownerId?: string): Promise<Patient | { status: number; error: string }> => {
+  if (typeof patientId !== "string" || !ObjectId.isValid(patientId)) {
+    return { status: 400, error: "Invalid patient id" };
+  }
+  const col = await getPatientsCollection();
+  const doc = await col.findOne({ _id: new ObjectId(patientId) as any, ownerId });
+  if (!doc) return { status: 404, error: "Patient not found" };
+  const patient = toPatient(doc);
+  return patient.unreadable ? { status: 409, error: "This patient's record cannot be decrypted" } : patient;
+};
+
+// With a conversationId the history comes from the stored conversation; otherwise the request's own history is used.
+// The patient is the request's patientId, or else the one the conversation was started for.
+// Patient chats put the patient's notes into the prompt, so they need the patients:notes permission
+const loadChatContext = async (
+  body: { conversationId?: unknown; patientId?: unknown; history?: ChatMessage[] },
+  ownerId?: string,
+  allowPatient = true,
+): Promise<ChatContext | { status: number; error: string; patientId?: string }> => {
+  const { conversationId, history = [] } = body;
+  const context = await loadConversationHistory(conversationId, history, ownerId);
+  if ("error" in context) return context;
+
+  const patientId = isBlank(body.patientId) ? context.conversation?.patientId : body.patientId;
+  if (isBlank(patientId)) return context;
+  // Denied and failed patient chats keep the patient id for the audit entry
+  const auditId = typeof patientId === "string" ? patientId : undefined;
+  if (!allowPatient) return { status: 403, error: "Your role does not allow patient chats", patientId: auditId };
+  const patient = await findChatPatient(patientId, ownerId);
+  if ("error" in patient) return { ...patient, patientId: auditId };
+  const gCol = await getGoalsCollection();
+  const goals = await gCol.find({ ownerId, patientId: patient.id, status: "active" }).sort({ createdAt: 1 }).toArray();
+  return { ...context, patient, goals: goals.map(toGoal) };
+};
+
+const loadConversationHistory = async (
+  conversationId: unknown,
+  history: ChatMessage[],
+  ownerId?: string,
+): Promise<ChatContext | { status: number; error: string }> => {
+  if (isBlank(conversationId)) {
+    return { history: Array.isArray(history) ? history : [] };
+  }
+  if (typeof conversationId !== "string" || !ObjectId.isValid(conversationId)) {
+    return { status: 400, error: "Invalid conversation id" };
+  }
+  const col = await getConversationsCollection();
+  const doc = await col.findOne({ _id: new ObjectId(conversationId) as any, ownerId });
+  if (!doc) {
+    return { status: 404, error: "Conversation not found" };
+  }
+  const conversation = toConversation(doc);
+  return {
+    conversation,
+    history: conversation.messages
+      .slice(-CHAT_HISTORY_LIMIT)
+      .map((m): ChatMessage => ({ role: m.role, content: m.content })),
+  };
+};
+
+// Appends the question and reply; untitled conversations take their title from the first question
+const saveConversationTurn = async (
+  conversation: Conversation,
+  message: string,
+  reply: Omit<ConversationMessage, "role" | "createdAt">,
+) => {
+  const now = new Date().toISOString();
+  const update: Partial<Conversation> = { updatedAt: now };
+  if (conversation.messages.length === 0 && conversation.title === DEFAULT_CONVERSATION_TITLE) {
+    update.title = message.length > 60 ? `${message.slice(0, 57).trimEnd()}...` : message;
+  }
+  const col = await getConversationsCollection();
+  await col.updateOne({ _id: new ObjectId(conversation.id) as any }, {
+    $set: update,
+    $push: {
+      messages: {
+        $each: [
+          { role: "user", content: message, createdAt: now },
+          { role: "assistant", ...reply, createdAt: now },
+        ],
       },
-    ];
+    },
+  });
+  return update.title;
+};
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages,
-      temperature: 0.3,
-    });
+const CHAT_FALLBACK = {
+  reply: "Assistant unavailable. Please try again later.",
+  resources: [] as Resource[],
+};
+
+// Chat endpoint with Mongo-backed retrieval
+app.post("/api/chat", audit("patient.chat", CHAT_PATIENT_TARGET), requirePermission("chat"), rateLimit(aiRateLimiter), meterAi, async (req: AuthedRequest, res: Response) => {
+  const { message }: { message: string } = req.body;
+
+  if (!message) {
+    return res.status(400).json({ error: "Message is required." });
+  }
 
-    const aiMessage = completion.choices[0]?.message?.content ?? "I'm sorry, I couldn't generate a response.";
+  if (!llm.isConfigured) {
+    return res.status(500).json({ error: LLM_NOT_CONFIGURED });
+  }
+
+  try {
+    const context = await loadChatContext(req.body, req.user?.sub, canSeePatientNotes(req));
+    res.locals.auditTargetId = "error" in context ? context.patientId : context.patient?.id;
+    if ("error" in context) {
+      return res.status(context.status).json({ error: context.error });
+    }
+    const meter = req.aiMeter as AiMeter;
+    const redactor = await loadRedactor(req.user?.sub as string);
+    const { topMatches, messages } = await prepareChat(message, context, await getAccessScope(req), meter, redactor);
+
+    const aiMessage = meter.lexicalOnly
+      ? AI_BUDGET_REPLY
+      : redactor.restore(
+          await llm.complete({
+            task: "chat",
+            messages: redactor.redactMessages(messages),
+            temperature: 0.3,
+            onUsage: meter.onUsage,
+          }),
+        ) || "I'm sorry, I couldn't generate a response.";
 
     let notedResources = topMatches;
     try {
-      const notes = await buildResourceNotes(message, topMatches);
+      const notes = await buildResourceNotes(message, topMatches, redactor, meter);
       notedResources = topMatches.map((r, idx) => ({ ...r, insight: notes[idx] }));
     } catch (noteErr) {
       console.error("Failed to build resource notes", noteErr);
     }
 
+    const citations = extractCitations(aiMessage, topMatches);
+
+    let title: string | undefined;
+    if (context.conversation) {
+      try {
+        title = await saveConversationTurn(context.conversation, message, {
+          content: aiMessage,
+          resources: notedResources,
+          citations,
+        });
+      } catch (saveErr) {
+        console.error("Failed to save conversation", saveErr);
+      }
+    }
+
     return res.json({
       reply: aiMessage,
       resources: notedResources,
+      citations,
+      conversationId: context.conversation?.id,
+      title,
+      ...(meter.lexicalOnly ? { lexicalOnly: true } : {}),
     });
   } catch (error) {
-    console.error("OpenAI or retrieval error", error);
+    console.error("LLM or retrieval error", error);
     return res.status(502).json({
       error: "Assistant temporarily unavailable.",
       detail: error instanceof Error ? error.message : "Unknown error",
-      fallback: {
-        reply: "Assistant unavailable. Please try again later.",
-        resources: [],
-      },
+      fallback: CHAT_FALLBACK,
+    });
+  }
+});
+
+const sendEvent = (res: Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Streaming chat over Server-Sent Events: `resources`, then `token` deltas, then `insights`, then `done`.
+// Failures after the stream opens arrive as an `error` event carrying the same fallback as /api/chat.
+app.post("/api/chat/stream", audit("patient.chat", CHAT_PATIENT_TARGET), requirePermission("chat"), rateLimit(aiRateLimiter), meterAi, async (req: AuthedRequest, res: Response) => {
+  const { message }: { message: string } = req.body;
+
+  if (!message) {
+    return res.status(400).json({ error: "Message is required." });
+  }
+
+  if (!llm.isConfigured) {
+    return res.status(500).json({ error: LLM_NOT_CONFIGURED });
+  }
+
+  let context: ChatContext;
+  try {
+    const loaded = await loadChatContext(req.body, req.user?.sub, canSeePatientNotes(req));
+    res.locals.auditTargetId = "error" in loaded ? loaded.patientId : loaded.patient?.id;
+    if ("error" in loaded) {
+      return res.status(loaded.status).json({ error: loaded.error });
+    }
+    context = loaded;
+  } catch (err) {
+    console.error("Failed to load conversation", err);
+    return res.status(500).json({ error: "Failed to load conversation" });
+  }
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  // Stop generating (and stop paying for tokens) as soon as the client cancels
+  const abort = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  // Stored once per request: the full turn on success, or whatever was generated before the client stopped
+  let reply = "";
+  let notedResources: Resource[] = [];
+  const persistTurn = async (stopped: boolean) => {
+    if (!context.conversation || (stopped && !reply)) return undefined;
+    try {
+      return await saveConversationTurn(context.conversation, message, {
+        content: reply || "I'm sorry, I couldn't generate a response.",
+        resources: notedResources,
+        citations: extractCitations(reply, notedResources),
+        ...(stopped ? { stopped } : {}),
+      });
+    } catch (saveErr) {
+      console.error("Failed to save conversation", saveErr);
+      return undefined;
+    }
+  };
+
+  const meter = req.aiMeter as AiMeter;
+  try {
+    const redactor = await loadRedactor(req.user?.sub as string);
+    const { topMatches, messages } = await prepareChat(message, context, await getAccessScope(req), meter, redactor);
+    if (abort.signal.aborted) return;
+    notedResources = topMatches;
+    sendEvent(res, "resources", { resources: topMatches, conversationId: context.conversation?.id });
+
+    // Tokens are restored as they stream, so the client and the saved turn only ever see real names
+    const restorer = redactor.createStreamRestorer();
+    // Over budget the retrieved resources still arrive, with the budget notice streamed as the reply
+    const stream = meter.lexicalOnly
+      ? [AI_BUDGET_REPLY]
+      : llm.stream({
+          task: "chat",
+          messages: redactor.redactMessages(messages),
+          temperature: 0.3,
+          signal: abort.signal,
+          onUsage: meter.onUsage,
+        });
+    for await (const chunk of stream) {
+      if (abort.signal.aborted) break;
+      const delta = restorer.push(chunk);
+      if (!delta) continue;
+      reply += delta;
+      sendEvent(res, "token", { delta });
+    }
+    const rest = restorer.flush();
+    if (rest) {
+      reply += rest;
+      if (!abort.signal.aborted) sendEvent(res, "token", { delta: rest });
+    }
+    if (abort.signal.aborted) {
+      await persistTurn(true);
+      return;
+    }
+
+    try {
+      const notes = await buildResourceNotes(message, topMatches, redactor, meter);
+      notedResources = topMatches.map((r, idx) => ({ ...r, insight: notes[idx] }));
+      if (!abort.signal.aborted) {
+        sendEvent(res, "insights", {
+          insights: topMatches.map((r, idx) => ({ id: r.id, insight: notes[idx] })),
+        });
+      }
+    } catch (noteErr) {
+      console.error("Failed to build resource notes", noteErr);
+    }
+
+    const title = await persistTurn(false);
+    if (abort.signal.aborted) return;
+    sendEvent(res, "done", {
+      reply: reply || "I'm sorry, I couldn't generate a response.",
+      citations: extractCitations(reply, topMatches),
+      conversationId: context.conversation?.id,
+      title,
+      ...(meter.lexicalOnly ? { lexicalOnly: true } : {}),
+    });
+    res.end();
+  } catch (error) {
+    if (abort.signal.aborted) {
+      await persistTurn(true);
+      return;
+    }
+    console.error("LLM or retrieval error", error);
+    sendEvent(res, "error", {
+      error: "Assistant temporarily unavailable.",
+      detail: error instanceof Error ? error.message : "Unknown error",
+      fallback: CHAT_FALLBACK,
     });
+    res.end();
   }
 });
 
@@ -759,4 +3834,18 @@ app.get(/^(?!\/api).*/, (_req, res) => {
 
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
+  seedUsers().catch((err) => console.error("Failed to seed users", err));
+  ensureAuditIndexes().catch((err) => console.error("Failed to create audit log indexes", err));
+  ensureUsageIndexes().catch((err) => console.error("Failed to create AI usage indexes", err));
+  console.log(`Embeddings: ${embeddingProvider.name} (${embeddingProvider.model})`);
+  console.log(`LLM: ${llm.name} (chat model ${llm.modelFor("chat")})`);
+  console.log(
+    `AI budget: ${AI_MONTHLY_TOKEN_BUDGET > 0 ? `${AI_MONTHLY_TOKEN_BUDGET} tokens per user per month` : "unlimited"}; ` +
+      `rate limits ${apiRateLimiter.limit}/min, ${aiRateLimiter.limit}/min on AI routes`,
+  );
+  if (fieldCipher.enabled) {
+    console.log(`Patient field encryption: on (key ${fieldCipher.currentKeyId})`);
+  } else {
+    console.warn("Patient names and notes are stored unencrypted. Set FIELD_ENCRYPTION_KEYS and FIELD_BLIND_INDEX_KEY.");
+  }
 });
@@ -0,0 +1,193 @@
+import fs from "fs";
+import { OpenAI } from "openai";
+import type { ChatMessage } from "./types";
+import type { UsageListener } from "./usage";
+
+// Each call site names its task so models can be configured separately (LLM_MODEL_<TASK>, falling back to LLM_MODEL).
+export type LlmTask = "metadata" | "notes" | "chat" | "plan";
+
+export type CompletionRequest = {
+  task: LlmTask;
+  messages: ChatMessage[];
+  temperature?: number;
+  signal?: AbortSignal;
+  // Called with the provider's token counts once they are known
+  onUsage?: UsageListener;
+};
+
+export type LlmProvider = {
+  name: string;
+  isConfigured: boolean;
+  modelFor: (task: LlmTask) => string;
+  complete: (request: CompletionRequest) => Promise<string>;
+  // Yields reply text as it is generated; stops early when request.signal aborts.
+  stream: (request: CompletionRequest) => AsyncIterable<string>;
+};
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+const modelForTask = (task: LlmTask) =>
+  process.env[`LLM_MODEL_${task.toUpperCase()}`] || process.env.LLM_MODEL || DEFAULT_MODEL;
+
+const createOpenAILlmProvider = (options: { name: string; apiKey?: string; baseURL?: string }): LlmProvider => {
+  const client = options.apiKey ? new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL }) : null;
+  return {
+    name: options.name,
+    isConfigured: !!client,
+    modelFor: modelForTask,
+    complete: async ({ task, messages, temperature, signal, onUsage }) => {
+      if (!client) throw new Error(`${options.name} LLM provider is not configured`);
+      const completion = await client.chat.completions.create(
+        {
+          model: modelForTask(task),
+          messages,
+          temperature,
+        },
+        { signal },
+      );
+      if (completion.usage) {
+        onUsage?.({ promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens });
+      }
+      return completion.choices[0]?.message?.content ?? "";
+    },
+    stream: async function* ({ task, messages, temperature, signal, onUsage }) {
+      if (!client) throw new Error(`${options.name} LLM provider is not configured`);
+      const stream = await client.chat.completions.create(
+        {
+          model: modelForTask(task),
+          messages,
+          temperature,
+          stream: true,
+          // The final chunk then carries the usage for the whole reply
+          stream_options: { include_usage: true },
+        },
+        { signal },
+      );
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          onUsage?.({ promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens });
+        }
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+};
+
+type MockScript = Partial<Record<LlmTask, string[]>>;
+
+const loadMockScript = (scriptPath?: string): MockScript => {
+  if (!scriptPath) return {};
+  try {
+    const parsed = JSON.parse(fs.readFileSync(scriptPath, "utf8"));
+    const script: MockScript = {};
+    (["metadata", "notes", "chat", "plan"] as LlmTask[]).forEach((task) => {
+      const value = parsed?.[task];
+      if (typeof value === "string") script[task] = [value];
+      else if (Array.isArray(value)) script[task] = value.filter((v: unknown) => typeof v === "string");
+    });
+    return script;
+  } catch (err) {
+    console.error("Failed to read LLM_MOCK_SCRIPT", err);
+    return {};
+  }
+};
+
+const lastUserMessage = (messages: ChatMessage[]) =>
+  [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+
+// Canned replies built from the prompt itself, so offline runs still reflect the retrieved resources.
+const defaultMockReply = (task: LlmTask, messages: ChatMessage[]): string => {
+  const prompt = lastUserMessage(messages);
+
+  if (task === "metadata") {
+    const text = prompt.split("Extracted text:")[1] ?? "";
+    const summary = text.trim().split(/\s+/).slice(0, 30).join(" ");
+    return JSON.stringify({ tags: [], ageRange: null, type: null, summary: summary || null });
+  }
+
+  if (task === "notes") {
+    const titles = Array.from(prompt.matchAll(/^\d+\. Title: (.+)$/gm)).map((m) => m[1]);
+    return titles.map((title, idx) => `${idx + 1}) Use "${title}" when it matches this session's target.`).join("\n");
+  }
+
+  if (task === "plan") {
+    const goals = Array.from(prompt.matchAll(/^Goal (\w+): (.+?) \(criterion/gm)).map((m) => ({ id: m[1], label: m[2] }));
+    const resources = Array.from(prompt.matchAll(/^Resource (\w+): (.+?) - /gm)).map((m) => ({ id: m[1], title: m[2] }));
+    return JSON.stringify({
+      warmUp: [{ text: "(Offline mode) Review last session's targets with a quick game.", minutes: 5 }],
+      targets: goals.map((g) => ({ text: `Practice ${g.label}`, goalId: g.id })),
+      activities: resources.slice(0, 3).map((r, idx) => ({
+        text: `Use "${r.title}" for structured practice.`,
+        minutes: 10,
+        resourceId: r.id,
+        goalId: goals[idx % Math.max(goals.length, 1)]?.id,
+      })),
+      homePractice: resources.length > 0 ? [{ text: `Send home "${resources[0].title}".`, resourceId: resources[0].id }] : [],
+    });
+  }
+
+  const titles = Array.from(prompt.matchAll(/^\d+\. (.+?) - /gm)).map((m) => m[1]);
+  if (titles.length === 0) {
+    return "(Offline mode) No matching resources in your library yet. Try uploading materials for this goal.";
+  }
+  return `(Offline mode) These resources from your library look relevant:\n${titles
+    .map((t, idx) => `- **${t}** [${idx + 1}]`)
+    .join("\n")}`;
+};
+
+// Scripted provider for offline runs and tests: replays LLM_MOCK_SCRIPT entries per task in order (cycling),
+// and falls back to canned replies when a task has no script.
+const createMockLlmProvider = (scriptPath?: string): LlmProvider => {
+  const script = loadMockScript(scriptPath);
+  const cursors: Record<LlmTask, number> = { metadata: 0, notes: 0, chat: 0, plan: 0 };
+  const reply = (task: LlmTask, messages: ChatMessage[]) => {
+    const entries = script[task];
+    if (entries && entries.length > 0) {
+      const next = entries[cursors[task] % entries.length];
+      cursors[task] += 1;
+      return next;
+    }
+    return defaultMockReply(task, messages);
+  };
+  return {
+    name: "mock",
+    isConfigured: true,
+    modelFor: () => "mock",
+    complete: async ({ task, messages }) => reply(task, messages),
+    // Replays the reply word by word so streaming clients can be exercised offline
+    stream: async function* ({ task, messages, signal }) {
+      for (const piece of reply(task, messages).split(/(?<=\s)/)) {
+        if (signal?.aborted) return;
+        yield piece;
+      }
+    },
+  };
+};
+
+// LLM_PROVIDER: openai (default) | local | mock
+export const createLlmProvider = (): LlmProvider => {
+  const provider = (process.env.LLM_PROVIDER || "openai").toLowerCase();
+
+  if (provider === "mock") {
+    return createMockLlmProvider(process.env.LLM_MOCK_SCRIPT);
+  }
+
+  if (provider === "local") {
+    const baseURL = process.env.LLM_BASE_URL;
+    if (!baseURL) {
+      console.error("LLM_PROVIDER=local needs LLM_BASE_URL; AI replies are disabled");
+    }
+    return createOpenAILlmProvider({
+      name: "local",
+      // Local servers usually ignore the key, but the client requires one
+      apiKey: baseURL ? process.env.LLM_API_KEY || "local" : undefined,
+      baseURL,
+    });
+  }
+
+  if (provider !== "openai") {
+    console.error(`Unknown LLM_PROVIDER "${provider}", using openai`);
+  }
+  return createOpenAILlmProvider({ name: "openai", apiKey: process.env.OPENAI_API_KEY });
+};
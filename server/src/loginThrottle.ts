@@ -0,0 +1,91 @@
+// Failed sign-in tracking for one kind of key (a username or a client IP). After `freeAttempts` failures each
+// further failure blocks the key for an exponentially growing delay, capped at `maxDelayMs`; every `lockoutAttempts`
+// failures the key is locked out for `lockoutMs`. Failures are forgotten `resetMs` after the last one. Like the
+// request rate limiter, state is in memory and per process.
+//
+// The check and the password verification are separated by an await, so concurrent guesses would all pass the
+// check before any failure is recorded. Callers run each attempt through `serialize`, which queues attempts for the
+// same key so every check sees the failures recorded by the attempts before it.
+
+export type LoginThrottleOptions = {
+  freeAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  lockoutAttempts: number;
+  lockoutMs: number;
+  resetMs: number;
+};
+
+export type LoginThrottle = {
+  // How long the key must wait before its next attempt, or 0
+  retryAfterSeconds: (key: string) => number;
+  // Returns the lockout this failure started, if any, so the caller can log it
+  recordFailure: (key: string) => { failures: number; lockedForSeconds?: number };
+  recordSuccess: (key: string) => void;
+  // Runs `attempt` once every earlier attempt for the key has settled, whether it succeeded or threw
+  serialize: <T>(key: string, attempt: () => Promise<T>) => Promise<T>;
+};
+
+type Entry = { failures: number; lastFailureAt: number; blockedUntil: number };
+
+export const createLoginThrottle = (options: LoginThrottleOptions): LoginThrottle => {
+  const entries = new Map<string, Entry>();
+  // Tail of each key's queue; it never rejects, and is dropped once nothing is waiting behind it
+  const queues = new Map<string, Promise<void>>();
+  let lastSweep = Date.now();
+
+  const current = (key: string, now: number) => {
+    const entry = entries.get(key);
+    if (entry && now - entry.lastFailureAt > options.resetMs && now >= entry.blockedUntil) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < options.resetMs) return;
+    lastSweep = now;
+    for (const key of entries.keys()) current(key, now);
+  };
+
+  return {
+    retryAfterSeconds: (key) => {
+      const now = Date.now();
+      sweep(now);
+      const entry = current(key, now);
+      return entry && entry.blockedUntil > now ? Math.ceil((entry.blockedUntil - now) / 1000) : 0;
+    },
+    recordFailure: (key) => {
+      const now = Date.now();
+      const entry = current(key, now) ?? { failures: 0, lastFailureAt: now, blockedUntil: 0 };
+      entry.failures += 1;
+      entry.lastFailureAt = now;
+      entries.set(key, entry);
+      if (entry.failures % options.lockoutAttempts === 0) {
+        entry.blockedUntil = now + options.lockoutMs;
+        return { failures: entry.failures, lockedForSeconds: Math.ceil(options.lockoutMs / 1000) };
+      }
+      if (entry.failures > options.freeAttempts) {
+        const delay = Math.min(options.baseDelayMs * 2 ** (entry.failures - options.freeAttempts - 1), options.maxDelayMs);
+        entry.blockedUntil = Math.max(entry.blockedUntil, now + delay);
+      }
+      return { failures: entry.failures };
+    },
+    recordSuccess: (key) => {
+      entries.delete(key);
+    },
+    serialize: (key, attempt) => {
+      const run = (queues.get(key) ?? Promise.resolve()).then(attempt);
+      const tail = run.then(
+        () => undefined,
+        () => undefined,
+      );
+      queues.set(key, tail);
+      void tail.then(() => {
+        if (queues.get(key) === tail) queues.delete(key);
+      });
+      return run;
+    },
+  };
+};
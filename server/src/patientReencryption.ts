@@ -0,0 +1,35 @@
+// One batch of POST /api/admin/reencrypt-patients. Records are visited in _id order after the cursor, and
+// nextCursor points past the last record visited whatever happened to it, so records that cannot be decrypted
+// (their key was removed) are passed over instead of filling every batch.
+
+export type ReencryptOutcome = "reencrypted" | "skipped";
+
+export type ReencryptBatchResult = {
+  processed: number;
+  reencrypted: number;
+  skipped: number;
+  failed: number;
+  nextCursor: string | null;
+};
+
+export const reencryptBatch = async <Doc extends { _id: { toString: () => string } }>(
+  // Stale records with _id greater than the cursor, in _id order
+  loadAfter: (cursor: string | undefined, limit: number) => Promise<Doc[]>,
+  reencrypt: (doc: Doc) => Promise<ReencryptOutcome>,
+  options: { cursor?: string; limit: number },
+): Promise<ReencryptBatchResult> => {
+  const docs = await loadAfter(options.cursor, options.limit + 1);
+  const page = docs.slice(0, options.limit);
+  const counts = { processed: 0, reencrypted: 0, skipped: 0, failed: 0 };
+  for (const doc of page) {
+    counts.processed += 1;
+    try {
+      counts[await reencrypt(doc)] += 1;
+    } catch (err) {
+      console.error("Re-encryption failed for patient", doc._id, err);
+      counts.failed += 1;
+    }
+  }
+  const last = page[page.length - 1];
+  return { ...counts, nextCursor: docs.length > options.limit && last ? last._id.toString() : null };
+};
@@ -0,0 +1,45 @@
+import type { UserRole } from "./types";
+
+// Role-based permissions. Every signed-in role can read, search and download the resources it has access to;
+// anything else is granted here and checked by requirePermission in index.ts.
+
+export const ROLES: UserRole[] = ["admin", "clinician", "assistant", "read-only"];
+
+// Accounts without a stored role keep the rights they had before roles existed
+export const DEFAULT_ROLE: UserRole = "clinician";
+
+export type Permission =
+  // Upload, edit, tag, file, share and delete your own resources
+  | "resources:write"
+  // Create and update patients, goals and sessions, plan sessions and link resources to patients
+  | "patients:write"
+  | "patients:delete"
+  // Patient and session notes, and chats about a patient (their notes go into the prompt)
+  | "patients:notes"
+  | "teams:manage"
+  | "chat"
+  // Maintenance routes under /api/admin and user roles
+  | "admin";
+
+const CLINICIAN_PERMISSIONS: Permission[] = [
+  "resources:write",
+  "patients:write",
+  "patients:delete",
+  "patients:notes",
+  "teams:manage",
+  "chat",
+];
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [...CLINICIAN_PERMISSIONS, "admin"],
+  clinician: CLINICIAN_PERMISSIONS,
+  assistant: ["resources:write", "chat"],
+  "read-only": [],
+};
+
+export const isRole = (value: unknown): value is UserRole => ROLES.includes(value as UserRole);
+
+export const permissionsFor = (role?: UserRole): Permission[] => ROLE_PERMISSIONS[role ?? DEFAULT_ROLE] ?? [];
+
+export const hasPermission = (role: UserRole | undefined, permission: Permission) =>
+  permissionsFor(role).includes(permission);
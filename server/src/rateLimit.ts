@@ -0,0 +1,43 @@
+// In-memory sliding-window rate limiter, keyed by user. Counts are per process, so with several server instances
+// each one allows the full limit.
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+export type RateLimiter = {
+  limit: number;
+  windowMs: number;
+  take: (key: string) => RateLimitResult;
+};
+
+// A limit of 0 or less disables the limiter
+export const createRateLimiter = (options: { limit: number; windowMs: number }): RateLimiter => {
+  const hits = new Map<string, number[]>();
+  let lastSweep = Date.now();
+
+  // Drops users with no requests in the window so the map does not grow with every account ever seen
+  const sweep = (now: number) => {
+    if (now - lastSweep < options.windowMs) return;
+    lastSweep = now;
+    for (const [key, times] of hits) {
+      if (times[times.length - 1] <= now - options.windowMs) hits.delete(key);
+    }
+  };
+
+  return {
+    limit: options.limit,
+    windowMs: options.windowMs,
+    take: (key) => {
+      if (options.limit <= 0) return { allowed: true };
+      const now = Date.now();
+      sweep(now);
+      const times = (hits.get(key) ?? []).filter((t) => t > now - options.windowMs);
+      if (times.length >= options.limit) {
+        hits.set(key, times);
+        return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((times[0] + options.windowMs - now) / 1000)) };
+      }
+      times.push(now);
+      hits.set(key, times);
+      return { allowed: true };
+    },
+  };
+};
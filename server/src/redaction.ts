@@ -0,0 +1,198 @@
+import type { ChatMessage } from "./types";
+
+// Replaces patient identifiers with placeholders before text goes to the LLM, and puts them back in the reply.
+// Known patients' names and dates of birth are matched, plus any phone number, email address and date written
+// after "DOB" or "born". The same value always gets the same placeholder within one redactor, so the model can
+// still tell people apart, and a placeholder is restored to the first way its value was written.
+
+export type RedactionSubject = { name: string; dateOfBirth?: string };
+
+type PlaceholderKind = "PATIENT" | "DOB" | "PHONE" | "EMAIL";
+
+const PLACEHOLDER_KINDS: string[] = ["PATIENT", "DOB", "PHONE", "EMAIL"];
+
+export type Redactor = {
+  redact: (text: string) => string;
+  redactMessages: (messages: ChatMessage[]) => ChatMessage[];
+  restore: (text: string) => string;
+  // For retrieval queries: identifiers are removed rather than replaced, so placeholders do not become search terms
+  stripIdentifiers: (text: string) => string;
+  // For streamed replies: holds back a placeholder, bracketed or bare, split across deltas until it is complete
+  createStreamRestorer: () => { push: (delta: string) => string; flush: () => string };
+};
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// 8-15 digits with optional +, spaces, dots, dashes and parentheses
+const PHONE_PATTERN = /(?<![\w+])\+?\(?\d[\d\s().-]{6,}\d(?!\w)/g;
+const DATE_LIKE = /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}$/;
+const DOB_CONTEXT_PATTERN =
+  /\b(DOB|D\.O\.B\.?|date of birth|born(?: on)?)(:?\s+)(\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}|\d{1,2}\s+[A-Z][a-z]+\s+\d{4}|[A-Z][a-z]+\s+\d{1,2},?\s+\d{4})/gi;
+const PLACEHOLDER_PATTERN = /\[?\b(PATIENT|DOB|PHONE|EMAIL)_(\d+)\b\]?/g;
+// Longest possible placeholder, e.g. "[PATIENT_999]"
+const MAX_PLACEHOLDER_LENGTH = 14;
+// A capitalised word, and maybe "_" and digits, at the very end of the text: the start of a bare placeholder?
+const TRAILING_WORD_PATTERN = /(?<!\w)([A-Z]{1,7})(_\d{0,3})?$/;
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// How much of the end of a streamed reply to hold back because the next delta may complete a placeholder: an
+// unclosed "[", or a bare "PATI", "DOB_" or "PHONE_1" (the model does not always keep the brackets)
+const heldBackLength = (text: string) => {
+  const open = text.lastIndexOf("[");
+  if (open !== -1 && !text.includes("]", open) && text.length - open < MAX_PLACEHOLDER_LENGTH) {
+    return text.length - open;
+  }
+  const trailing = TRAILING_WORD_PATTERN.exec(text);
+  if (!trailing) return 0;
+  const [fragment, word, suffix] = trailing;
+  const partial =
+    suffix === undefined ? PLACEHOLDER_KINDS.some((kind) => kind.startsWith(word)) : PLACEHOLDER_KINDS.includes(word);
+  return partial ? fragment.length : 0;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// The ways a YYYY-MM-DD date of birth is commonly written: ISO, day/month and month/day with -, / or .,
+// and with the month spelt out
+const dobSpellings = (iso: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(iso);
+  if (!match) return [];
+  const [, y, m, d] = match;
+  const month = MONTHS[Number(m) - 1];
+  const days = [d, String(Number(d))];
+  const months = [m, String(Number(m))];
+  const spellings = new Set<string>([iso]);
+  for (const sep of ["/", "-", "."]) {
+    for (const dd of days) {
+      for (const mm of months) {
+        spellings.add(`${dd}${sep}${mm}${sep}${y}`);
+        spellings.add(`${mm}${sep}${dd}${sep}${y}`);
+      }
+    }
+  }
+  if (month) {
+    spellings.add(`${Number(d)} ${month} ${y}`);
+    spellings.add(`${month} ${Number(d)}, ${y}`);
+    spellings.add(`${month} ${Number(d)} ${y}`);
+  }
+  return [...spellings];
+};
+
+export const createRedactor = (subjects: RedactionSubject[]): Redactor => {
+  const placeholders = new Map<string, string>();
+  const originals = new Map<string, string>();
+  const counters: Record<PlaceholderKind, number> = { PATIENT: 0, DOB: 0, PHONE: 0, EMAIL: 0 };
+
+  const placeholderFor = (kind: PlaceholderKind, key: string, original: string) => {
+    const mapKey = `${kind}:${key}`;
+    let placeholder = placeholders.get(mapKey);
+    if (!placeholder) {
+      counters[kind] += 1;
+      placeholder = `[${kind}_${counters[kind]}]`;
+      placeholders.set(mapKey, placeholder);
+    }
+    if (!originals.has(placeholder)) originals.set(placeholder, original);
+    return placeholder;
+  };
+
+  // Full names match in any case; single name parts only when capitalised, so a patient called Will or May does
+  // not swallow every "will" and "may". All parts of one patient's name share that patient's placeholder. Full
+  // names go first and longest first, so "Sam Taylor" becomes one placeholder rather than two.
+  const names = subjects
+    .map((subject, idx) => ({ key: String(idx), full: (subject.name || "").trim().replace(/\s+/g, " ") }))
+    .filter(({ full }) => full.length >= 2);
+  const nameRules = [
+    ...names
+      .filter(({ full }) => full.includes(" "))
+      .sort((a, b) => b.full.length - a.full.length)
+      .map(({ key, full }) => ({
+        key,
+        pattern: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(full).replace(/ /g, "\\s+")}(?![\\p{L}\\p{N}])`, "giu"),
+      })),
+    ...names
+      .flatMap(({ key, full }) => full.split(" ").filter((part) => part.length >= 2).map((part) => ({ key, part })))
+      .sort((a, b) => b.part.length - a.part.length)
+      .map(({ key, part }) => ({
+        key,
+        pattern: new RegExp(
+          `(?<![\\p{L}\\p{N}])${escapeRegExp(part[0].toUpperCase() + part.slice(1))}(?![\\p{L}\\p{N}])`,
+          "gu",
+        ),
+      })),
+  ];
+
+  const dobRules = subjects
+    .filter((subject) => subject.dateOfBirth)
+    .flatMap((subject) =>
+      dobSpellings(subject.dateOfBirth as string).map((spelling) => ({
+        key: subject.dateOfBirth as string,
+        pattern: new RegExp(`(?<![\\w/.-])${escapeRegExp(spelling)}(?![\\w/-]|\\.\\d)`, "gi"),
+      })),
+    );
+
+  const redact = (text: string) => {
+    if (!text) return text;
+    let out = text;
+    for (const rule of nameRules) {
+      out = out.replace(rule.pattern, (match) => placeholderFor("PATIENT", rule.key, match));
+    }
+    for (const rule of dobRules) {
+      out = out.replace(rule.pattern, (match) => placeholderFor("DOB", rule.key, match));
+    }
+    out = out.replace(DOB_CONTEXT_PATTERN, (_match, label: string, gap: string, date: string) =>
+      `${label}${gap}${placeholderFor("DOB", date.toLowerCase(), date)}`,
+    );
+    out = out.replace(EMAIL_PATTERN, (match) => placeholderFor("EMAIL", match.toLowerCase(), match));
+    out = out.replace(PHONE_PATTERN, (match) => {
+      const digits = match.replace(/\D/g, "");
+      if (digits.length < 8 || digits.length > 15 || DATE_LIKE.test(match.trim())) return match;
+      return placeholderFor("PHONE", digits, match);
+    });
+    return out;
+  };
+
+  const restore = (text: string) =>
+    text.replace(PLACEHOLDER_PATTERN, (match, kind: string, n: string) => originals.get(`[${kind}_${n}]`) ?? match);
+
+  return {
+    redact,
+    redactMessages: (messages) => messages.map((m) => ({ ...m, content: redact(m.content) })),
+    restore,
+    stripIdentifiers: (text) =>
+      redact(text)
+        .replace(PLACEHOLDER_PATTERN, " ")
+        .replace(/\s{2,}/g, " ")
+        .trim(),
+    createStreamRestorer: () => {
+      let pending = "";
+      return {
+        push: (delta) => {
+          pending += delta;
+          // Everything before a possible partial placeholder is safe to restore and send
+          const hold = heldBackLength(pending);
+          const ready = pending.slice(0, pending.length - hold);
+          pending = pending.slice(pending.length - hold);
+          return restore(ready);
+        },
+        flush: () => {
+          const rest = restore(pending);
+          pending = "";
+          return rest;
+        },
+      };
+    },
+  };
+};
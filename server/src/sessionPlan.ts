@@ -0,0 +1,114 @@
+import type { ChatMessage, Goal, PlanStep, Resource, SessionPlan } from "./types";
+
+// Prompt and parser for generated session plans. The model sees resources and goals by id and must reference
+// them by id; anything it references that was not offered is stripped before the plan reaches the client.
+
+export const PLAN_SECTIONS = ["warmUp", "targets", "activities", "homePractice"] as const;
+
+const MAX_STEPS_PER_SECTION = 8;
+const MAX_STEP_CHARS = 600;
+
+export const buildSessionPlanMessages = (options: {
+  profile: string;
+  goals: Goal[];
+  resources: Resource[];
+  linkedResourceIds: Set<string>;
+  durationMinutes: number;
+  focus?: string;
+}): ChatMessage[] => {
+  const { profile, goals, resources, linkedResourceIds, durationMinutes, focus } = options;
+  const goalList =
+    goals.length > 0
+      ? goals.map((g) => `Goal ${g.id}: ${g.domain}: ${g.target} (criterion: ${g.criterion})`).join("\n")
+      : "No goals recorded.";
+  const resourceList =
+    resources.length > 0
+      ? resources
+          .map(
+            (r) =>
+              `Resource ${r.id}: ${r.title} - ${r.description} (type: ${r.type || "resource"}, ages: ${
+                r.ageRange || "any"
+              }, tags: ${r.tags.join(", ")})` + (linkedResourceIds.has(r.id as string) ? " (linked to patient)" : ""),
+          )
+          .join("\n")
+      : "No matching resources in the library.";
+
+  return [
+    {
+      role: "system",
+      content:
+        "You are a speech pathology assistant planning one therapy session. " +
+        "Respond with JSON only, with keys warmUp, targets, activities and homePractice. Each is an array of steps " +
+        '{"text": string, "minutes"?: number, "resourceId"?: string, "goalId"?: string}. ' +
+        "targets has one step per goal worked on, saying the level and cue for today. " +
+        "Use only the resource and goal ids listed; leave resourceId out when no listed resource fits. Do not invent materials.",
+    },
+    { role: "system", content: profile },
+    {
+      role: "user",
+      content:
+        `Session length: ${durationMinutes} minutes.` +
+        (focus ? `\nClinician focus: ${focus}` : "") +
+        `\n\nGoals:\n${goalList}\n\nResources:\n${resourceList}`,
+    },
+  ];
+};
+
+// Models often wrap JSON in a code fence or add a sentence around it
+const extractJsonObject = (raw: string): unknown => {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+  try {
+    return JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+};
+
+// Accepts model output (a string) or a client-edited plan (an object). Steps without text are dropped;
+// references to ids outside `refs` are removed from their step and counted.
+export const parseSessionPlan = (
+  raw: unknown,
+  refs: { resourceIds: Pick<Set<string>, "has">; goalIds: Pick<Set<string>, "has"> },
+): { plan: SessionPlan; droppedReferences: number } | null => {
+  const parsed = typeof raw === "string" ? extractJsonObject(raw) : raw;
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return null;
+
+  let droppedReferences = 0;
+  const toStep = (value: any): PlanStep | null => {
+    const text = typeof value === "string" ? value : value?.text;
+    if (typeof text !== "string" || !text.trim()) return null;
+    const step: PlanStep = { text: text.trim().slice(0, MAX_STEP_CHARS) };
+    if (Number.isFinite(value?.minutes) && value.minutes > 0) step.minutes = Math.round(value.minutes);
+    if (value?.resourceId !== undefined && value?.resourceId !== null) {
+      if (refs.resourceIds.has(String(value.resourceId))) step.resourceId = String(value.resourceId);
+      else droppedReferences += 1;
+    }
+    if (value?.goalId !== undefined && value?.goalId !== null) {
+      if (refs.goalIds.has(String(value.goalId))) step.goalId = String(value.goalId);
+      else droppedReferences += 1;
+    }
+    return step;
+  };
+
+  const source = parsed as Record<string, unknown>;
+  const plan = Object.fromEntries(
+    PLAN_SECTIONS.map((section) => {
+      const steps = Array.isArray(source[section]) ? (source[section] as unknown[]) : [];
+      return [
+        section,
+        steps
+          .map(toStep)
+          .filter((step): step is PlanStep => !!step)
+          .slice(0, MAX_STEPS_PER_SECTION),
+      ];
+    }),
+  ) as SessionPlan;
+
+  return { plan, droppedReferences };
+};
+
+// Ids of every resource the plan points at, in plan order
+export const planResourceIds = (plan: SessionPlan) =>
+  Array.from(new Set(PLAN_SECTIONS.flatMap((section) => plan[section].map((step) => step.resourceId)).filter(Boolean))) as string[];
@@ -13,20 +13,319 @@ export type Resource = {
   folder?: string;
   uploadedBy?: string;
   createdAt: string;
+  lastUsedAt?: string;
   extractedText?: string;
   insight?: string;
   ownerId?: string;
   ownerEmail?: string;
   patientIds?: string[];
+  // Set when the owner shares the resource with a team; absent means private
+  teamId?: string;
+  // Goals this resource is used for; each goal's patient is also in patientIds
+  goalIds?: string[];
   embedding?: number[];
+  embeddingModel?: string;
+  // Model that embedded this resource's passage chunks; unset until they have been built
+  chunkEmbeddingModel?: string;
+  retrieval?: RetrievalDebug;
+  passage?: Passage;
 };
 
+// Best-matching stretch of a resource's text for a query
+export type Passage = {
+  text: string;
+  page?: number;
+  chunkIndex: number;
+  score?: number;
+};
+
+export type ResourceChunk = {
+  id?: string;
+  _id?: string;
+  resourceId: string;
+  ownerId?: string;
+  // Copied from the resource so the passage vector index can filter on it
+  teamId?: string;
+  index: number;
+  text: string;
+  start: number;
+  page?: number;
+  embedding?: number[];
+  embeddingModel?: string;
+  createdAt: string;
+};
+
+export type RetrieverName = "vector" | "lexical";
+
+export type RetrievalContribution = {
+  rank: number;
+  score: number;
+  contribution: number;
+};
+
+// Per-resource breakdown of how each retriever contributed to the fused ranking
+export type RetrievalDebug = {
+  score: number;
+  vector?: RetrievalContribution;
+  lexical?: RetrievalContribution;
+  // Extra score for resources linked to the patient a chat is about
+  patientBoost?: number;
+};
+
+export type SearchHighlight = {
+  field: "title" | "description" | "tags" | "text";
+  snippet: string;
+  terms: string[];
+};
+
+export type SearchResult = Resource & {
+  score: number;
+  vectorScore?: number;
+  lexicalScore?: number;
+  highlights: SearchHighlight[];
+};
+
+export type CommunicationModality = "verbal" | "aac" | "sign" | "mixed";
+
+export type CaseloadStatus = "active" | "discharged";
+
 export type Patient = {
   id?: string;
   _id?: string;
   name: string;
   notes?: string;
+  dateOfBirth?: string;
+  // Whole years, derived from dateOfBirth when returned
+  age?: number;
+  diagnoses?: string[];
+  targetSounds?: string[];
+  communicationModality?: CommunicationModality;
+  status?: CaseloadStatus;
+  ownerId?: string;
+  ownerEmail?: string;
+  // Stored only: blind-index hashes of the name's words, and which blind-index key produced them
+  nameIndex?: string[];
+  nameIndexKey?: string;
+  // Set in responses when the name or notes cannot be decrypted; both are then left empty
+  unreadable?: boolean;
+  createdAt: string;
+  updatedAt?: string;
+};
+
+export type GoalDomain =
+  | "articulation"
+  | "phonology"
+  | "language"
+  | "fluency"
+  | "voice"
+  | "pragmatics"
+  | "aac"
+  | "literacy"
+  | "feeding"
+  | "other";
+
+export type GoalStatus = "active" | "met" | "on-hold" | "discontinued";
+
+export type Goal = {
+  id?: string;
+  _id?: string;
+  patientId: string;
+  domain: GoalDomain;
+  // What the patient will do, e.g. "produce /s/ in initial position at word level"
+  target: string;
+  // How success is measured, e.g. "80% accuracy across 3 consecutive sessions"
+  criterion: string;
+  status: GoalStatus;
+  startDate: string;
+  reviewDate?: string;
+  ownerId?: string;
+  ownerEmail?: string;
+  createdAt: string;
+  updatedAt?: string;
+};
+
+export type TrialCounts = { correct: number; incorrect: number; prompted: number };
+
+// Trials recorded against one goal in a session
+export type GoalTrials = TrialCounts & { goalId: string };
+
+// One line of a session plan; resourceId and goalId only ever hold ids that exist for the patient
+export type PlanStep = { text: string; minutes?: number; resourceId?: string; goalId?: string };
+
+export type SessionPlan = {
+  warmUp: PlanStep[];
+  targets: PlanStep[];
+  activities: PlanStep[];
+  homePractice: PlanStep[];
+};
+
+export type TherapySession = {
+  id?: string;
+  _id?: string;
+  patientId: string;
+  date: string;
+  durationMinutes?: number;
+  // What was worked on
+  notes?: string;
+  // Titles are copied at logging time so the record still reads after a resource is deleted
+  resources: { id: string; title: string }[];
+  trials: GoalTrials[];
+  // Set when the session was saved from a generated plan
+  plan?: SessionPlan;
+  ownerId?: string;
+  ownerEmail?: string;
+  createdAt: string;
+};
+
+// Accuracy is correct / all trials; prompted trials count as not independently correct
+export type GoalProgressPoint = TrialCounts & { sessionId: string; date: string; total: number; accuracy: number };
+
+export type GoalProgress = { goalId: string; points: GoalProgressPoint[]; totals: TrialCounts & { accuracy: number } };
+
+export type Folder = {
+  id?: string;
+  _id?: string;
+  name: string;
+  ownerId?: string;
+  ownerEmail?: string;
+  createdAt: string;
+};
+
+// A resource reference found in a chat reply; start/end are character offsets of the cited text in the reply.
+export type Citation = {
+  index: number;
+  resourceId?: string;
+  title: string;
+  start: number;
+  end: number;
+  valid: boolean;
+  issue?: "unknown-resource" | "title-mismatch";
+};
+
+export type ConversationMessage = {
+  role: "user" | "assistant";
+  content: string;
+  resources?: Resource[];
+  citations?: Citation[];
+  stopped?: boolean;
+  createdAt: string;
+};
+
+export type Conversation = {
+  id?: string;
+  _id?: string;
+  title: string;
+  // Patient the conversation was started for; chat turns default to it
+  patientId?: string;
+  messages: ConversationMessage[];
   ownerId?: string;
   ownerEmail?: string;
   createdAt: string;
+  updatedAt: string;
+};
+
+export type FileText = {
+  fileId: string;
+  filename?: string;
+  mimetype?: string;
+  text: string;
+  ownerId?: string;
+  extractedAt: string;
+};
+
+export type UserRole = "admin" | "clinician" | "assistant" | "read-only";
+
+export type User = {
+  id?: string;
+  _id?: string;
+  username: string;
+  email?: string;
+  // Accounts created before roles existed have none and are treated as clinicians
+  role?: UserRole;
+  // Overrides AI_MONTHLY_TOKEN_BUDGET for this account; 0 means unlimited
+  monthlyTokenBudget?: number;
+  passwordHash: string;
+  createdAt: string;
+  updatedAt?: string;
+};
+
+// A signed-in session; expiresAt is a Date so MongoDB's TTL index can remove expired sessions
+export type AuthSession = {
+  tokenHash: string;
+  username: string;
+  createdAt: string;
+  expiresAt: Date;
+};
+
+export type TeamRole = "owner" | "member";
+
+export type TeamMember = { username: string; role: TeamRole; addedAt: string };
+
+export type Team = {
+  id?: string;
+  _id?: string;
+  name: string;
+  members: TeamMember[];
+  createdBy?: string;
+  createdAt: string;
+  updatedAt?: string;
+};
+
+// What a signed-in user can read: their own documents plus resources shared with their teams
+export type AccessScope = { ownerId?: string; teamIds: string[] };
+
+export type AuditTargetType = "patient" | "resource" | "file";
+
+export type AuditAction =
+  | "patient.list"
+  | "patient.create"
+  | "patient.update"
+  | "patient.delete"
+  | "patient.progress"
+  | "patient.chat"
+  | "patient.conversation"
+  | "goal.list"
+  | "goal.create"
+  | "goal.update"
+  | "goal.delete"
+  | "goal.link-resource"
+  | "goal.unlink-resource"
+  | "session.list"
+  | "session.create"
+  | "session.delete"
+  | "session.plan"
+  | "resource.patients"
+  | "file.download"
+  | "audit.export";
+
+// One append-only audit record. Failed and denied attempts are kept too, with their status code.
+// `at` is a Date so time-range queries use the index.
+export type AuditEntry = {
+  id?: string;
+  _id?: string;
+  at: Date;
+  requestId: string;
+  actor?: string;
+  role?: UserRole;
+  action: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  method: string;
+  path: string;
+  status: number;
+  ip?: string;
+  details?: Record<string, unknown>;
+};
+
+// Tokens reported by the LLM and embedding providers
+export type TokenUsage = { promptTokens: number; completionTokens: number; embeddingTokens: number };
+
+// One document per user per UTC day; counters are incremented as AI calls complete
+export type UsageDay = TokenUsage & {
+  userId: string;
+  day: string;
+  month: string;
+  // Requests to AI routes, including ones served lexical-only
+  requests: number;
+  updatedAt: Date;
 };
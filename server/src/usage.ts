@@ -0,0 +1,74 @@
+import { getUsageCollection } from "./db";
+import type { TokenUsage } from "./types";
+
+// Per-user AI token accounting and monthly budgets. Providers report the usage fields of each completion and
+// embedding call through an AiMeter, which adds them to the user's counters for the current UTC day. A user whose
+// month total reaches their budget gets a lexical-only meter: routes skip the AI calls and fall back to lexical
+// retrieval until the month rolls over or the budget is raised.
+
+export type UsageListener = (usage: Partial<TokenUsage>) => void;
+
+// Passed to everything that may call a provider on a user's behalf
+export type AiMeter = { lexicalOnly: boolean; onUsage: UsageListener };
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export const monthKey = (date = new Date()) => date.toISOString().slice(0, 7);
+
+export const totalTokens = (usage: TokenUsage) => usage.promptTokens + usage.completionTokens + usage.embeddingTokens;
+
+export const recordUsage = async (userId: string, usage: Partial<TokenUsage>, requests = 0) => {
+  const now = new Date();
+  const col = await getUsageCollection();
+  await col.updateOne(
+    { userId, day: dayKey(now) },
+    {
+      $inc: {
+        promptTokens: usage.promptTokens ?? 0,
+        completionTokens: usage.completionTokens ?? 0,
+        embeddingTokens: usage.embeddingTokens ?? 0,
+        requests,
+      },
+      $set: { updatedAt: now },
+      $setOnInsert: { month: monthKey(now) },
+    },
+    { upsert: true },
+  );
+};
+
+export const ensureUsageIndexes = async () => {
+  const col = await getUsageCollection();
+  await col.createIndex({ userId: 1, day: 1 }, { unique: true });
+  await col.createIndex({ userId: 1, month: 1 });
+};
+
+// Daily rows for one month (YYYY-MM), oldest first, plus their totals
+export const getMonthlyUsage = async (userId: string, month = monthKey()) => {
+  const col = await getUsageCollection();
+  const docs = await col.find({ userId, month }).sort({ day: 1 }).toArray();
+  const days = docs.map((doc) => ({
+    day: doc.day,
+    promptTokens: doc.promptTokens ?? 0,
+    completionTokens: doc.completionTokens ?? 0,
+    embeddingTokens: doc.embeddingTokens ?? 0,
+    requests: doc.requests ?? 0,
+  }));
+  const totals = days.reduce(
+    (acc, day) => ({
+      promptTokens: acc.promptTokens + day.promptTokens,
+      completionTokens: acc.completionTokens + day.completionTokens,
+      embeddingTokens: acc.embeddingTokens + day.embeddingTokens,
+      requests: acc.requests + day.requests,
+    }),
+    { promptTokens: 0, completionTokens: 0, embeddingTokens: 0, requests: 0 },
+  );
+  return { month, days, ...totals };
+};
+
+// Recording failures are logged rather than failing the request that already got its answer
+export const createAiMeter = (userId: string, lexicalOnly: boolean): AiMeter => ({
+  lexicalOnly,
+  onUsage: (usage) => {
+    recordUsage(userId, usage).catch((err) => console.error("Failed to record AI usage", err));
+  },
+});
@@ -0,0 +1,165 @@
+import { getResourceChunksCollection, getResourcesCollection } from "./db";
+import type { AccessScope } from "./types";
+
+// In-process cosine-similarity indexes used when Atlas $vectorSearch is unavailable (local or self-hosted MongoDB):
+// one over Resource.embedding and one over passage chunks. Each is loaded lazily on first query and kept in sync
+// by the write routes. Entries carry their resource's owner and team so searches apply the same access rules as
+// MongoDB queries.
+
+// Who can read a vector: its owner, and members of the team the resource is shared with
+export type VectorAccess = { ownerId?: string; teamId?: string };
+
+type VectorEntry = VectorAccess & { vector: Float32Array; norm: number };
+type StoredVector = VectorAccess & { id: string; embedding?: number[] };
+
+const toEntry = (access: VectorAccess, embedding: number[]): VectorEntry => {
+  const vector = Float32Array.from(embedding);
+  let sum = 0;
+  for (let i = 0; i < vector.length; i += 1) sum += vector[i] * vector[i];
+  return { ownerId: access.ownerId, teamId: access.teamId, vector, norm: Math.sqrt(sum) };
+};
+
+const canRead = (entry: VectorEntry, scope: AccessScope) =>
+  entry.ownerId === scope.ownerId || (!!entry.teamId && scope.teamIds.includes(entry.teamId));
+
+const createLocalVectorIndex = (label: string, readAll: () => AsyncIterable<StoredVector>) => {
+  let entries: Map<string, VectorEntry> | null = null;
+  let loading: Promise<Map<string, VectorEntry>> | null = null;
+
+  const loadIndex = async (): Promise<Map<string, VectorEntry>> => {
+    if (entries) return entries;
+    if (!loading) {
+      loading = (async () => {
+        const map = new Map<string, VectorEntry>();
+        for await (const doc of readAll()) {
+          if (Array.isArray(doc.embedding) && doc.embedding.length > 0) {
+            map.set(doc.id, toEntry(doc, doc.embedding));
+          }
+        }
+        entries = map;
+        console.log(`Local ${label} index loaded with ${map.size} embeddings`);
+        return map;
+      })().finally(() => {
+        loading = null;
+      });
+    }
+    return loading;
+  };
+
+  // Sync helpers are no-ops until the index has been loaded; a later load reads the current state from MongoDB.
+  const loadedIndex = async (): Promise<Map<string, VectorEntry> | null> => {
+    if (entries) return entries;
+    if (loading) {
+      try {
+        return await loading;
+      } catch {
+        return null;
+      }
+    }
+    return null;
+  };
+
+  return {
+    upsert: async (id: string, access: VectorAccess, embedding: number[]) => {
+      const index = await loadedIndex();
+      if (!index || embedding.length === 0) return;
+      index.set(id, toEntry(access, embedding));
+    },
+    retag: async (matches: (id: string) => boolean, teamId: string | undefined) => {
+      const index = await loadedIndex();
+      if (!index) return;
+      index.forEach((entry, id) => {
+        if (matches(id)) entry.teamId = teamId;
+      });
+    },
+    remove: async (matches: (id: string) => boolean) => {
+      const index = await loadedIndex();
+      if (!index) return;
+      Array.from(index.keys())
+        .filter(matches)
+        .forEach((id) => index.delete(id));
+    },
+    // Scores use Atlas' cosine scale, (1 + cos) / 2, so both paths compare.
+    search: async (queryVector: number[], scope: AccessScope, limit: number) => {
+      const index = await loadIndex();
+      const query = toEntry({}, queryVector);
+      if (query.norm === 0) return [];
+
+      const scored: { id: string; score: number }[] = [];
+      index.forEach((entry, id) => {
+        if (!canRead(entry, scope) || entry.norm === 0 || entry.vector.length !== query.vector.length) return;
+        let dot = 0;
+        for (let i = 0; i < query.vector.length; i += 1) dot += query.vector[i] * entry.vector[i];
+        const cosine = dot / (query.norm * entry.norm);
+        scored.push({ id, score: (1 + cosine) / 2 });
+      });
+
+      return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+  };
+};
+
+const resourceIndex = createLocalVectorIndex("vector", async function* () {
+  const col = await getResourcesCollection();
+  const cursor = col
+    .find({ embedding: { $exists: true } })
+    .project<{ _id: unknown; ownerId?: string; teamId?: string; embedding?: number[] }>({ ownerId: 1, teamId: 1, embedding: 1 });
+  for await (const doc of cursor) {
+    yield { id: String(doc._id), ownerId: doc.ownerId, teamId: doc.teamId, embedding: doc.embedding };
+  }
+});
+
+// Chunks are keyed "<resourceId>:<chunk index>" so a resource's passages can be dropped together.
+const chunkKey = (resourceId: string, index: number) => `${resourceId}:${index}`;
+
+const chunkIndex = createLocalVectorIndex("passage", async function* () {
+  const col = await getResourceChunksCollection();
+  const cursor = col
+    .find({ embedding: { $exists: true } })
+    .project<{ resourceId: string; index: number; ownerId?: string; teamId?: string; embedding?: number[] }>({
+      resourceId: 1,
+      index: 1,
+      ownerId: 1,
+      teamId: 1,
+      embedding: 1,
+    });
+  for await (const doc of cursor) {
+    yield { id: chunkKey(doc.resourceId, doc.index), ownerId: doc.ownerId, teamId: doc.teamId, embedding: doc.embedding };
+  }
+});
+
+export const upsertLocalVector = (id: string, access: VectorAccess, embedding: number[]) =>
+  resourceIndex.upsert(id, access, embedding);
+
+export const removeLocalVector = (id: string) => resourceIndex.remove((key) => key === id);
+
+// Returns resource ids by descending similarity.
+export const searchLocalVectors = (queryVector: number[], scope: AccessScope, limit: number) =>
+  resourceIndex.search(queryVector, scope, limit);
+
+// Moves a resource and its passages to another team (or back to private) without re-reading embeddings.
+export const setLocalVectorTeam = async (resourceId: string, teamId: string | undefined) => {
+  await resourceIndex.retag((key) => key === resourceId, teamId);
+  await chunkIndex.retag((key) => key.startsWith(`${resourceId}:`), teamId);
+};
+
+export const replaceLocalChunkVectors = async (
+  resourceId: string,
+  access: VectorAccess,
+  chunks: { index: number; embedding?: number[] }[],
+) => {
+  await removeLocalChunkVectors(resourceId);
+  for (const chunk of chunks) {
+    if (chunk.embedding) await chunkIndex.upsert(chunkKey(resourceId, chunk.index), access, chunk.embedding);
+  }
+};
+
+export const removeLocalChunkVectors = (resourceId: string) =>
+  chunkIndex.remove((key) => key.startsWith(`${resourceId}:`));
+
+// Returns passages by descending similarity.
+export const searchLocalChunkVectors = async (queryVector: number[], scope: AccessScope, limit: number) =>
+  (await chunkIndex.search(queryVector, scope, limit)).map(({ id, score }) => {
+    const [resourceId, index] = id.split(":");
+    return { resourceId, index: Number(index), score };
+  });
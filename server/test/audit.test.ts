@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { test } from "node:test";
+import { onResponseDone, toAuditCsvRow } from "../src/audit";
+
+// Serves one request with `handle`, and resolves with every `aborted` value onResponseDone reported for it
+const serveOnce = async (
+  handle: (res: http.ServerResponse) => void,
+  request: (url: string) => Promise<void>,
+): Promise<boolean[]> => {
+  const reports: boolean[] = [];
+  let responseOver!: () => void;
+  const over = new Promise<void>((resolve) => (responseOver = resolve));
+  const server = http.createServer((_req, res) => {
+    onResponseDone(res, (aborted) => reports.push(aborted));
+    res.once("close", () => setImmediate(responseOver));
+    handle(res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  try {
+    await request(`http://127.0.0.1:${(server.address() as AddressInfo).port}/`);
+    await over;
+  } finally {
+    server.close();
+  }
+  return reports;
+};
+
+test("a response sent in full is reported once, not aborted", async () => {
+  const reports = await serveOnce(
+    (res) => res.end("ok"),
+    async (url) => {
+      await (await fetch(url)).text();
+    },
+  );
+  assert.deepEqual(reports, [false]);
+});
+
+test("a stream the client stops is reported once, as aborted", async () => {
+  const reports = await serveOnce(
+    (res) => {
+      // Like the chat stream: headers and a first event go out, and the handler never ends the response
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write("event: token\ndata: {}\n\n");
+    },
+    async (url) => {
+      const controller = new AbortController();
+      const response = await fetch(url, { signal: controller.signal });
+      const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+      await reader.read();
+      controller.abort();
+      await reader.read().catch(() => undefined);
+    },
+  );
+  assert.deepEqual(reports, [true]);
+});
+
+test("CSV cells that a spreadsheet would treat as a formula are quoted", () => {
+  const row = toAuditCsvRow({
+    at: new Date("2026-01-02T03:04:05.000Z"),
+    requestId: "=cmd",
+    action: "patient.update",
+    method: "GET",
+    path: "\tpath",
+    status: 200,
+  });
+  assert.equal(row, `2026-01-02T03:04:05.000Z,'=cmd,,,patient.update,,,GET,'\tpath,200,,`);
+});
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { test } from "node:test";
+import { createFieldCipher } from "../src/fieldCrypto";
+
+const key = () => crypto.randomBytes(32).toString("base64");
+const blindIndexKey = key();
+
+const cipherWith = (keys: string) => {
+  process.env.FIELD_ENCRYPTION_KEYS = keys;
+  process.env.FIELD_BLIND_INDEX_KEY = blindIndexKey;
+  return createFieldCipher();
+};
+
+test("encrypted values decrypt only for the field they were written to", () => {
+  const cipher = cipherWith(`k1:${key()}`);
+  const stored = cipher.encrypt("Sam Taylor", "name");
+  assert.ok(stored.startsWith("enc:v1:k1:"));
+  assert.equal(cipher.decrypt(stored, "name"), "Sam Taylor");
+  assert.throws(() => cipher.decrypt(stored, "notes"));
+});
+
+test("key rotation round-trips: old values still decrypt and re-encrypt under the new key", () => {
+  const oldKey = key();
+  const before = cipherWith(`k1:${oldKey}`);
+  const stored = before.encrypt("Sam Taylor", "name");
+
+  const newKey = key();
+  const after = cipherWith(`k2:${newKey},k1:${oldKey}`);
+  assert.equal(after.currentKeyId, "k2");
+  assert.equal(after.keyIdOf(stored), "k1");
+  assert.equal(after.needsRotation(stored), true);
+  const rotated = after.encrypt(after.decrypt(stored, "name"), "name");
+  assert.equal(after.needsRotation(rotated), false);
+  assert.equal(after.decrypt(rotated, "name"), "Sam Taylor");
+
+  const retired = cipherWith(`k2:${newKey}`);
+  assert.equal(retired.decrypt(rotated, "name"), "Sam Taylor");
+  assert.throws(() => retired.decrypt(stored, "name"), /No key "k1"/);
+});
+
+test("plaintext from before encryption passes through and is flagged for rotation", () => {
+  const cipher = cipherWith(`k1:${key()}`);
+  assert.equal(cipher.decrypt("Sam Taylor", "name"), "Sam Taylor");
+  assert.equal(cipher.needsRotation("Sam Taylor"), true);
+  assert.equal(cipher.keyIdOf("Sam Taylor"), undefined);
+});
+
+test("misconfigured keys are rejected", () => {
+  assert.throws(() => cipherWith("k1:tooshort"));
+  assert.throws(() => cipherWith(`k1:${key()},k1:${key()}`), /repeats key id/);
+});
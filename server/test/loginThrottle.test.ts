@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createLoginThrottle } from "../src/loginThrottle";
+
+const options = {
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  lockoutAttempts: 5,
+  lockoutMs: 15 * 60_000,
+  resetMs: 60 * 60_000,
+};
+
+test("failures within the free attempts do not delay the next attempt", () => {
+  const throttle = createLoginThrottle(options);
+  for (let i = 0; i < options.freeAttempts; i += 1) throttle.recordFailure("sam");
+  assert.equal(throttle.retryAfterSeconds("sam"), 0);
+});
+
+test("each failure after the free attempts doubles the delay, up to the cap", () => {
+  const throttle = createLoginThrottle({ ...options, lockoutAttempts: 100 });
+  for (let i = 0; i < options.freeAttempts; i += 1) throttle.recordFailure("sam");
+  const delays = Array.from({ length: 8 }, () => {
+    throttle.recordFailure("sam");
+    return throttle.retryAfterSeconds("sam");
+  });
+  assert.deepEqual(delays, [1, 2, 4, 8, 16, 32, 60, 60]);
+});
+
+test("the Nth failure locks the key out, and not before", () => {
+  const throttle = createLoginThrottle(options);
+  for (let i = 1; i < options.lockoutAttempts; i += 1) {
+    assert.equal(throttle.recordFailure("sam").lockedForSeconds, undefined);
+  }
+  const result = throttle.recordFailure("sam");
+  assert.deepEqual(result, { failures: options.lockoutAttempts, lockedForSeconds: options.lockoutMs / 1000 });
+  assert.equal(throttle.retryAfterSeconds("sam"), options.lockoutMs / 1000);
+  assert.equal(throttle.retryAfterSeconds("alex"), 0);
+});
+
+test("a success clears the key", () => {
+  const throttle = createLoginThrottle(options);
+  for (let i = 0; i < options.freeAttempts + 1; i += 1) throttle.recordFailure("sam");
+  throttle.recordSuccess("sam");
+  assert.equal(throttle.retryAfterSeconds("sam"), 0);
+  assert.equal(throttle.recordFailure("sam").failures, 1);
+});
+
+test("serialized attempts each see the failures recorded before them", async () => {
+  const throttle = createLoginThrottle(options);
+  let checked = 0;
+  const attempt = () =>
+    throttle.serialize("sam", async () => {
+      if (throttle.retryAfterSeconds("sam") > 0) return "throttled";
+      checked += 1;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      throttle.recordFailure("sam");
+      return "failed";
+    });
+  const broken = throttle.serialize("sam", async () => {
+    throw new Error("database unavailable");
+  });
+  const results = await Promise.all([attempt(), broken.catch(() => "error"), ...Array.from({ length: 10 }, attempt)]);
+  assert.equal(checked, options.freeAttempts + 1);
+  assert.equal(results[1], "error");
+  assert.equal(results.filter((r) => r === "throttled").length, 10 - options.freeAttempts);
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { reencryptBatch } from "../src/patientReencryption";
+
+type Doc = { _id: string; unreadable: boolean; sealed?: boolean };
+
+// 250 records whose key is gone, then 120 that can be re-encrypted, in _id order
+const makeDocs = (): Doc[] =>
+  Array.from({ length: 370 }, (_, idx) => ({ _id: String(idx).padStart(4, "0"), unreadable: idx < 250 }));
+
+// Like the route's query: records still stale, after the cursor, in _id order
+const loadFrom = (docs: Doc[]) => async (cursor: string | undefined, limit: number) =>
+  docs.filter((doc) => !doc.sealed && (!cursor || doc._id > cursor)).slice(0, limit);
+
+const reencrypt = async (doc: Doc) => {
+  if (doc.unreadable) return "skipped" as const;
+  doc.sealed = true;
+  return "reencrypted" as const;
+};
+
+test("the cursor moves past unreadable records, so every batch makes progress", async () => {
+  const docs = makeDocs();
+  const batches = [];
+  let cursor: string | undefined;
+  do {
+    const result = await reencryptBatch(loadFrom(docs), reencrypt, { cursor, limit: 200 });
+    batches.push(result);
+    cursor = result.nextCursor ?? undefined;
+  } while (cursor);
+
+  assert.deepEqual(
+    batches.map(({ processed, reencrypted, skipped, failed }) => ({ processed, reencrypted, skipped, failed })),
+    [
+      { processed: 200, reencrypted: 0, skipped: 200, failed: 0 },
+      { processed: 170, reencrypted: 120, skipped: 50, failed: 0 },
+    ],
+  );
+  assert.equal(batches[0].nextCursor, "0199");
+  assert.equal(batches[1].nextCursor, null);
+  assert.ok(docs.filter((doc) => !doc.unreadable).every((doc) => doc.sealed));
+});
+
+test("a pass that finds only unreadable records reports nothing re-encrypted", async () => {
+  const docs = makeDocs();
+  docs.forEach((doc) => (doc.sealed = !doc.unreadable));
+  const result = await reencryptBatch(loadFrom(docs), reencrypt, { cursor: "0199", limit: 200 });
+  assert.deepEqual(result, { processed: 50, reencrypted: 0, skipped: 50, failed: 0, nextCursor: null });
+});
+
+test("a record that throws is counted as failed and passed over", async () => {
+  const docs = makeDocs().slice(250, 253);
+  const result = await reencryptBatch(
+    loadFrom(docs),
+    async (doc) => {
+      if (doc._id === "0251") throw new Error("write conflict");
+      return "reencrypted";
+    },
+    { limit: 2 },
+  );
+  assert.deepEqual(result, { processed: 2, reencrypted: 1, skipped: 0, failed: 1, nextCursor: "0251" });
+});
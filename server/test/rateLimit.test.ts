@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createRateLimiter } from "../src/rateLimit";
+
+test("allows the limit within the window, then refuses with a retry delay", () => {
+  const limiter = createRateLimiter({ limit: 3, windowMs: 60_000 });
+  for (let i = 0; i < 3; i += 1) assert.deepEqual(limiter.take("sam"), { allowed: true });
+  const refused = limiter.take("sam");
+  assert.equal(refused.allowed, false);
+  assert.ok(!refused.allowed && refused.retryAfterSeconds >= 1 && refused.retryAfterSeconds <= 60);
+});
+
+test("keys are counted separately", () => {
+  const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+  assert.equal(limiter.take("sam").allowed, true);
+  assert.equal(limiter.take("alex").allowed, true);
+  assert.equal(limiter.take("sam").allowed, false);
+});
+
+test("a limit of 0 disables the limiter", () => {
+  const limiter = createRateLimiter({ limit: 0, windowMs: 60_000 });
+  for (let i = 0; i < 100; i += 1) assert.equal(limiter.take("sam").allowed, true);
+});
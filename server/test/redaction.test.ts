@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createRedactor } from "../src/redaction";
+
+const subjects = [{ name: "Sam Taylor", dateOfBirth: "2018-03-04" }, { name: "Will Chen" }];
+
+test("replaces known names, dates of birth and contact details, and restores them", () => {
+  const redactor = createRedactor(subjects);
+  const text = "Sam Taylor (DOB 4/3/2018) saw Will today. Call 0412 345 678 or mum@example.com.";
+  const redacted = redactor.redact(text);
+  for (const identifier of ["Sam", "Taylor", "4/3/2018", "Will", "0412 345 678", "mum@example.com"]) {
+    assert.ok(!redacted.includes(identifier), `${identifier} leaked into: ${redacted}`);
+  }
+  assert.equal(redactor.restore(redacted), text);
+});
+
+test("the same person keeps one placeholder, and lowercase name parts are left alone", () => {
+  const redactor = createRedactor(subjects);
+  assert.equal(redactor.redact("Sam Taylor, then Sam again"), "[PATIENT_1], then [PATIENT_1] again");
+  assert.equal(redactor.redact("he will try"), "he will try");
+});
+
+test("a placeholder split across stream chunks is restored once complete", () => {
+  const redactor = createRedactor(subjects);
+  const redacted = redactor.redact("Practise /s/ with Sam Taylor daily.");
+  const restorer = redactor.createStreamRestorer();
+  const chunks = [redacted.slice(0, 22), redacted.slice(22, 27), redacted.slice(27)];
+  assert.ok(chunks.some((chunk) => chunk.includes("[") && !chunk.includes("]")), "a chunk should end mid-placeholder");
+  const streamed = chunks.map((chunk) => restorer.push(chunk)).join("") + restorer.flush();
+  assert.equal(streamed, "Practise /s/ with Sam Taylor daily.");
+  assert.ok(!restorer.push("[PATIENT_").includes("[PATIENT_"));
+  assert.equal(restorer.flush(), "[PATIENT_");
+});
+
+test("a bare placeholder split across stream chunks is restored once complete", () => {
+  const redactor = createRedactor(subjects);
+  redactor.redact("Sam Taylor");
+  const restorer = redactor.createStreamRestorer();
+  assert.equal(restorer.push("Great work from PATI"), "Great work from ");
+  assert.equal(restorer.push("ENT_"), "");
+  assert.equal(restorer.push("1 today. I"), "Sam Taylor today. I");
+  assert.equal(restorer.push(" think DOB"), " think ");
+  assert.equal(restorer.push("BY liked it"), "DOBBY liked it");
+  assert.equal(restorer.flush(), "");
+});
+
+test("stripIdentifiers removes identifiers without leaving placeholders behind", () => {
+  const redactor = createRedactor(subjects);
+  assert.equal(redactor.stripIdentifiers("/s/ drills for Sam Taylor"), "/s/ drills for");
+  assert.equal(redactor.stripIdentifiers("Sam"), "");
+});